@@ -0,0 +1,6 @@
+// Chính sách hủy dùng khi chưa có chính sách nào được cấu hình: hoàn toàn bộ nếu hủy trước suất chiếu đủ số giờ
+export const DEFAULT_CANCELLATION_DEADLINE_HOURS = Number(process.env.CANCELLATION_DEADLINE_HOURS) || 3;
+
+export const DEFAULT_CANCELLATION_TIERS = [
+  { minHoursBefore: DEFAULT_CANCELLATION_DEADLINE_HOURS, refundPercent: 100 },
+];
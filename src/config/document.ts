@@ -0,0 +1,9 @@
+// Tiền tố số hóa đơn, vd. "INV-2026-000001"
+export const INVOICE_NUMBER_PREFIX = process.env.INVOICE_NUMBER_PREFIX || "INV";
+
+// Thông tin người bán in trên hóa đơn
+export const INVOICE_SELLER_NAME = process.env.INVOICE_SELLER_NAME || "Movie Booking";
+export const INVOICE_SELLER_TAX_CODE = process.env.INVOICE_SELLER_TAX_CODE || "";
+
+// Font TTF có đủ dấu tiếng Việt; bỏ trống thì dùng Helvetica có sẵn của PDF (không hiển thị được dấu)
+export const PDF_FONT_PATH = process.env.PDF_FONT_PATH || "";
@@ -0,0 +1,25 @@
+// Chính sách giữ ghế dùng chung cho đặt chỗ, giữ ghế lẻ và đếm ngược qua socket
+
+const readNumber = (value: string | undefined, fallback: number): number => {
+  const parsed = Number(value);
+  return value !== undefined && value !== "" && Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+};
+
+export const HOLD_POLICY = {
+  durationMinutes: readNumber(process.env.SEAT_HOLD_MINUTES, 15), // Thời gian giữ ghế mặc định
+  extensionMinutes: readNumber(process.env.SEAT_HOLD_EXTENSION_MINUTES, 5), // Số phút cộng thêm mỗi lần gia hạn
+  maxExtensions: readNumber(process.env.SEAT_HOLD_MAX_EXTENSIONS, 2), // Số lần gia hạn tối đa
+};
+
+// Suất chiếu có thể ghi đè thời gian giữ ghế mặc định
+export const getHoldDurationMinutes = (showtime?: { holdDurationMinutes?: number } | null): number => {
+  return showtime?.holdDurationMinutes || HOLD_POLICY.durationMinutes;
+};
+
+export const computeHoldExpiry = (showtime?: { holdDurationMinutes?: number } | null, from: Date = new Date()): Date => {
+  return new Date(from.getTime() + getHoldDurationMinutes(showtime) * 60 * 1000);
+};
+
+export const computeExtendedExpiry = (expiresAt: Date): Date => {
+  return new Date(new Date(expiresAt).getTime() + HOLD_POLICY.extensionMinutes * 60 * 1000);
+};
@@ -0,0 +1,14 @@
+// Loại tiền tệ dùng cho mọi giao dịch thanh toán
+export const PAYMENT_CURRENCY = process.env.PAYMENT_CURRENCY || "VND";
+
+// Sau khoảng thời gian này, một đặt chỗ kẹt ở trạng thái "processing" (vd. server dừng giữa chừng) được phép hết hạn
+export const PAYMENT_LOCK_TIMEOUT_MINUTES = Number(process.env.PAYMENT_LOCK_TIMEOUT_MINUTES) || 10;
+
+// Bộ giả lập cổng thanh toán phải được bật tường minh: route duyệt thanh toán của nó không cần xác thực
+export const PAYMENT_GATEWAY_SIMULATOR_ENABLED = process.env.PAYMENT_GATEWAY_SIMULATOR === "true";
+
+// Cổng thanh toán chuyển hướng; khi bật bộ giả lập mà không cấu hình cổng thật thì dùng bộ giả lập chạy cùng server
+export const PAYMENT_GATEWAY_URL = process.env.PAYMENT_GATEWAY_URL
+  || (PAYMENT_GATEWAY_SIMULATOR_ENABLED ? `http://localhost:${process.env.PORT || 3000}/gateway-simulator` : "");
+export const PAYMENT_WEBHOOK_URL = process.env.PAYMENT_WEBHOOK_URL || `http://localhost:${process.env.PORT || 3000}/api/payments/webhook`;
+export const PAYMENT_WEBHOOK_SECRET = process.env.PAYMENT_WEBHOOK_SECRET || "";
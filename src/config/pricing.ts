@@ -0,0 +1,8 @@
+// Múi giờ dùng để xét ngày trong tuần, khung giờ và ngày lễ của quy tắc giá
+export const PRICING_TIMEZONE = process.env.PRICING_TIMEZONE || "Asia/Ho_Chi_Minh";
+
+// Phí đặt vé cộng vào mỗi ghế, không được giảm bởi mã khuyến mãi
+export const BOOKING_FEE_PER_SEAT = Number(process.env.BOOKING_FEE_PER_SEAT) || 0;
+
+// Thuế GTGT (%) đã bao gồm trong giá vé, được tách ra trên hóa đơn
+export const VAT_RATE = Number(process.env.VAT_RATE ?? 10);
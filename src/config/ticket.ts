@@ -0,0 +1,5 @@
+// Khóa ký vé điện tử; máy quét tại cửa rạp dùng cùng khóa để xác thực vé khi không có mạng
+export const TICKET_SIGNING_SECRET = process.env.TICKET_SIGNING_SECRET || "";
+
+// Vé vẫn được chấp nhận thêm một khoảng sau khi suất chiếu kết thúc
+export const TICKET_VALID_AFTER_END_MINUTES = Number(process.env.TICKET_VALID_AFTER_END_MINUTES) || 60;
@@ -1,8 +1,8 @@
 import { Request, Response } from "express";
 import { HTTP_STATUS_CODES } from "../httpStatus/httpStatusCode";
 import { BookingService } from "../services/booking.service";
-import { PaymentProcessor, CreditCardPayment, PayPalPayment } from "../patterns/strategy/PaymentStrategy";
 import { responseSend } from "../config/response"; // Import hàm responseSend
+import { HttpError } from "../utils/errors";
 
 // Interface to extend Request with user info
 interface AuthRequest extends Request {
@@ -10,6 +10,7 @@ interface AuthRequest extends Request {
 }
 
 const bookingService = new BookingService();
+const MAX_IDEMPOTENCY_KEY_LENGTH = 255;
 
 export class BookingController {
   static async createBooking(req: AuthRequest, res: Response): Promise<void> {
@@ -20,7 +21,7 @@ export class BookingController {
         return;
       }
 
-      const { showtimeId, seatIds, paymentMethod } = req.body;
+      const { showtimeId, seatIds, paymentMethod, promoCode, seatCategories } = req.body;
 
       // Validate input
       if (!showtimeId || !seatIds || !seatIds.length || !paymentMethod) {
@@ -40,6 +41,8 @@ export class BookingController {
         seatIds,
         paymentMethod,
         paymentDetails: {}, // Will be provided at payment processing step
+        promoCode,
+        seatCategories, // { [seatId]: "adult" | "child" | "student" | "senior" }
       });
 
       responseSend(
@@ -50,6 +53,10 @@ export class BookingController {
       );
     } catch (error: any) {
       console.error("Error creating booking:", error.message);
+      if (error instanceof HttpError) {
+        responseSend(res, error.details || null, error.message, error.statusCode);
+        return;
+      }
       responseSend(
         res,
         null,
@@ -68,6 +75,7 @@ export class BookingController {
       }
 
       const { bookingId, paymentMethod, paymentDetails } = req.body;
+      const idempotencyKey = req.get("Idempotency-Key");
 
       // Validate input
       if (!bookingId || !paymentMethod || !paymentDetails) {
@@ -80,43 +88,52 @@ export class BookingController {
         return;
       }
 
-      // Select payment strategy based on payment method
-      let paymentStrategy;
-      switch (paymentMethod.toLowerCase()) {
-        case "credit_card":
-          paymentStrategy = new CreditCardPayment();
-          break;
-        case "paypal":
-          paymentStrategy = new PayPalPayment();
-          break;
-        default:
-          responseSend(
-            res,
-            null,
-            "Unsupported payment method",
-            HTTP_STATUS_CODES.BAD_REQUEST
-          );
-          return;
+      if (!idempotencyKey || idempotencyKey.length > MAX_IDEMPOTENCY_KEY_LENGTH) {
+        responseSend(
+          res,
+          null,
+          `Idempotency-Key header is required (at most ${MAX_IDEMPOTENCY_KEY_LENGTH} characters)`,
+          HTTP_STATUS_CODES.BAD_REQUEST
+        );
+        return;
       }
 
-      // Create payment processor with selected strategy
-      const paymentProcessor = new PaymentProcessor(paymentStrategy);
-
-      // Process payment
-      const updatedBooking = await bookingService.processPayment(
+      // Process payment with the strategy registered under paymentMethod
+      const { booking, payment, replayed } = await bookingService.processPayment({
         bookingId,
-        paymentProcessor,
-        paymentDetails
-      );
+        userId: req.user.id,
+        paymentMethod,
+        paymentDetails,
+        idempotencyKey
+      });
+
+      if (replayed) {
+        res.set("Idempotent-Replayed", "true");
+      }
+
+      // Redirect-style payments finish at the gateway; the client follows checkoutUrl and waits for confirmation
+      if (payment.status === "pending") {
+        responseSend(
+          res,
+          { booking, payment, checkoutUrl: payment.checkoutUrl },
+          "Payment is awaiting confirmation from the payment gateway",
+          HTTP_STATUS_CODES.ACCEPTED
+        );
+        return;
+      }
 
       responseSend(
         res,
-        { booking: updatedBooking },
+        { booking, payment },
         "Payment processed successfully",
         HTTP_STATUS_CODES.OK
       );
     } catch (error: any) {
       console.error("Error processing payment:", error.message);
+      if (error instanceof HttpError) {
+        responseSend(res, error.details || null, error.message, error.statusCode);
+        return;
+      }
       responseSend(
         res,
         null,
@@ -147,6 +164,10 @@ export class BookingController {
       );
     } catch (error: any) {
       console.error("Error cancelling booking:", error.message);
+      if (error instanceof HttpError) {
+        responseSend(res, error.details || null, error.message, error.statusCode);
+        return;
+      }
       responseSend(
         res,
         null,
@@ -156,6 +177,259 @@ export class BookingController {
     }
   }
 
+  static async cancelSeat(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      // Ensure user is authenticated
+      if (!req.user) {
+        responseSend(res, null, "Authentication required", HTTP_STATUS_CODES.UNAUTHORIZED);
+        return;
+      }
+
+      const { id, seatId } = req.params;
+
+      // Cancel one seat and refund its price
+      const { booking, refunds } = await bookingService.cancelSeat(id, seatId, req.user.id);
+
+      responseSend(
+        res,
+        { booking, refunds },
+        "Seat cancelled successfully",
+        HTTP_STATUS_CODES.OK
+      );
+    } catch (error: any) {
+      console.error("Error cancelling seat:", error.message);
+      if (error instanceof HttpError) {
+        responseSend(res, error.details || null, error.message, error.statusCode);
+        return;
+      }
+      responseSend(
+        res,
+        null,
+        error.message || "Error cancelling seat",
+        HTTP_STATUS_CODES.BAD_REQUEST
+      );
+    }
+  }
+
+  static async exchangeBooking(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      // Ensure user is authenticated
+      if (!req.user) {
+        responseSend(res, null, "Authentication required", HTTP_STATUS_CODES.UNAUTHORIZED);
+        return;
+      }
+
+      const { showtimeId, seatIds, seatCategories, paymentMethod, paymentDetails } = req.body;
+
+      // Validate input
+      if (!Array.isArray(seatIds) || !seatIds.length) {
+        responseSend(res, null, "Missing seats to exchange to", HTTP_STATUS_CODES.BAD_REQUEST);
+        return;
+      }
+
+      // Move the booking and settle the price difference
+      const { booking, priceDifference, refunds } = await bookingService.exchangeBooking({
+        bookingId: req.params.id,
+        userId: req.user.id,
+        showtimeId, // Optional: another showtime of the same movie
+        seatIds,
+        seatCategories,
+        paymentMethod, // Only needed when the new seats cost more
+        paymentDetails,
+      });
+
+      responseSend(
+        res,
+        { booking, priceDifference, refunds },
+        "Booking exchanged successfully",
+        HTTP_STATUS_CODES.OK
+      );
+    } catch (error: any) {
+      console.error("Error exchanging booking:", error.message);
+      if (error instanceof HttpError) {
+        responseSend(res, error.details || null, error.message, error.statusCode);
+        return;
+      }
+      responseSend(
+        res,
+        null,
+        error.message || "Error exchanging booking",
+        HTTP_STATUS_CODES.BAD_REQUEST
+      );
+    }
+  }
+
+  static async extendHold(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      // Ensure user is authenticated
+      if (!req.user) {
+        responseSend(res, null, "Authentication required", HTTP_STATUS_CODES.UNAUTHORIZED);
+        return;
+      }
+
+      const { id } = req.params;
+
+      // Extend the seat hold of a reserved booking
+      const booking = await bookingService.extendHold(id, req.user.id);
+
+      responseSend(
+        res,
+        { booking, expiresAt: booking.expiresAt },
+        "Booking hold extended successfully",
+        HTTP_STATUS_CODES.OK
+      );
+    } catch (error: any) {
+      console.error("Error extending booking hold:", error.message);
+      responseSend(
+        res,
+        error instanceof HttpError ? error.details || null : null,
+        error.message || "Error extending booking hold",
+        error instanceof HttpError ? error.statusCode : HTTP_STATUS_CODES.BAD_REQUEST
+      );
+    }
+  }
+
+  static async getCancellationQuote(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      // Ensure user is authenticated
+      if (!req.user) {
+        responseSend(res, null, "Authentication required", HTTP_STATUS_CODES.UNAUTHORIZED);
+        return;
+      }
+
+      const { id } = req.params;
+      const seatId = typeof req.query.seatId === "string" ? req.query.seatId : undefined;
+
+      // What a cancellation right now would refund; pass ?seatId= to quote a single seat
+      const quote = await bookingService.getCancellationQuote(id, req.user.id, seatId);
+
+      responseSend(
+        res,
+        { quote },
+        "Cancellation quote fetched successfully",
+        HTTP_STATUS_CODES.OK
+      );
+    } catch (error: any) {
+      console.error("Error fetching cancellation quote:", error.message);
+      responseSend(
+        res,
+        error instanceof HttpError ? error.details || null : null,
+        error.message || "Error fetching cancellation quote",
+        error instanceof HttpError ? error.statusCode : HTTP_STATUS_CODES.BAD_REQUEST
+      );
+    }
+  }
+
+  static async getTickets(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      // Ensure user is authenticated
+      if (!req.user) {
+        responseSend(res, null, "Authentication required", HTTP_STATUS_CODES.UNAUTHORIZED);
+        return;
+      }
+
+      const { id } = req.params;
+
+      // One signed ticket per seat, each with its QR code image
+      const tickets = await bookingService.getTickets(id, req.user.id, req.user.role);
+
+      responseSend(
+        res,
+        { tickets },
+        "Tickets fetched successfully",
+        HTTP_STATUS_CODES.OK
+      );
+    } catch (error: any) {
+      console.error("Error fetching tickets:", error.message);
+      responseSend(
+        res,
+        error instanceof HttpError ? error.details || null : null,
+        error.message || "Error fetching tickets",
+        error instanceof HttpError ? error.statusCode : HTTP_STATUS_CODES.BAD_REQUEST
+      );
+    }
+  }
+
+  static async getTicketPdf(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      // Ensure user is authenticated
+      if (!req.user) {
+        responseSend(res, null, "Authentication required", HTTP_STATUS_CODES.UNAUTHORIZED);
+        return;
+      }
+
+      const { id } = req.params;
+      const pdf = await bookingService.getTicketPdf(id, req.user.id, req.user.role);
+
+      res.setHeader("Content-Type", "application/pdf");
+      res.setHeader("Content-Disposition", `attachment; filename="ticket-${id}.pdf"`);
+      res.status(HTTP_STATUS_CODES.OK).send(pdf);
+    } catch (error: any) {
+      console.error("Error generating ticket PDF:", error.message);
+      responseSend(
+        res,
+        error instanceof HttpError ? error.details || null : null,
+        error.message || "Error generating ticket PDF",
+        error instanceof HttpError ? error.statusCode : HTTP_STATUS_CODES.BAD_REQUEST
+      );
+    }
+  }
+
+  static async getInvoicePdf(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      // Ensure user is authenticated
+      if (!req.user) {
+        responseSend(res, null, "Authentication required", HTTP_STATUS_CODES.UNAUTHORIZED);
+        return;
+      }
+
+      const { id } = req.params;
+      const { pdf, invoiceNumber } = await bookingService.getInvoicePdf(id, req.user.id, req.user.role);
+
+      res.setHeader("Content-Type", "application/pdf");
+      res.setHeader("Content-Disposition", `attachment; filename="${invoiceNumber}.pdf"`);
+      res.status(HTTP_STATUS_CODES.OK).send(pdf);
+    } catch (error: any) {
+      console.error("Error generating invoice PDF:", error.message);
+      responseSend(
+        res,
+        error instanceof HttpError ? error.details || null : null,
+        error.message || "Error generating invoice PDF",
+        error instanceof HttpError ? error.statusCode : HTTP_STATUS_CODES.BAD_REQUEST
+      );
+    }
+  }
+
+  static async getBookingPayments(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      // Ensure user is authenticated
+      if (!req.user) {
+        responseSend(res, null, "Authentication required", HTTP_STATUS_CODES.UNAUTHORIZED);
+        return;
+      }
+
+      const { id } = req.params;
+
+      // Every payment attempt made for the booking, newest first
+      const payments = await bookingService.getBookingPayments(id, req.user.id, req.user.role);
+
+      responseSend(
+        res,
+        { payments },
+        "Booking payments fetched successfully",
+        HTTP_STATUS_CODES.OK
+      );
+    } catch (error: any) {
+      console.error("Error fetching booking payments:", error.message);
+      responseSend(
+        res,
+        error instanceof HttpError ? error.details || null : null,
+        error.message || "Error fetching booking payments",
+        error instanceof HttpError ? error.statusCode : HTTP_STATUS_CODES.BAD_REQUEST
+      );
+    }
+  }
+
   static async getUserBookings(req: AuthRequest, res: Response): Promise<void> {
     try {
       // Ensure user is authenticated
@@ -199,7 +473,7 @@ export class BookingController {
 
       responseSend(
         res,
-        { booking },
+        { booking, priceBreakdown: bookingService.getPriceBreakdown(booking) },
         "Booking details fetched successfully",
         HTTP_STATUS_CODES.OK
       );
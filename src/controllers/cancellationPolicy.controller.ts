@@ -0,0 +1,104 @@
+import { Request, Response } from "express";
+import { HTTP_STATUS_CODES } from "../httpStatus/httpStatusCode";
+import { CancellationPolicyService } from "../services/cancellationPolicy.service";
+import { responseSend } from "../config/response";
+
+const cancellationPolicyService = new CancellationPolicyService();
+
+export class CancellationPolicyController {
+  static async getAllPolicies(req: Request, res: Response): Promise<void> {
+    try {
+      const policies = await cancellationPolicyService.getAllPolicies();
+      responseSend(res, { policies }, "Cancellation policies fetched successfully", HTTP_STATUS_CODES.OK);
+    } catch (error: any) {
+      console.error("Error fetching cancellation policies:", error.message);
+      responseSend(
+        res,
+        null,
+        error.message || "Error fetching cancellation policies",
+        HTTP_STATUS_CODES.INTERNAL_SERVER_ERROR
+      );
+    }
+  }
+
+  static async getPolicyById(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const policy = await cancellationPolicyService.getPolicyById(id);
+      if (!policy) {
+        responseSend(res, null, "Cancellation policy not found", HTTP_STATUS_CODES.NOT_FOUND);
+        return;
+      }
+      responseSend(res, { policy }, "Cancellation policy fetched successfully", HTTP_STATUS_CODES.OK);
+    } catch (error: any) {
+      console.error("Error fetching cancellation policy:", error.message);
+      responseSend(
+        res,
+        null,
+        error.message || "Error fetching cancellation policy",
+        HTTP_STATUS_CODES.INTERNAL_SERVER_ERROR
+      );
+    }
+  }
+
+  static async createPolicy(req: Request, res: Response): Promise<void> {
+    try {
+      const policy = await cancellationPolicyService.createPolicy(req.body);
+      responseSend(
+        res,
+        { policy },
+        "Cancellation policy created successfully",
+        HTTP_STATUS_CODES.CREATED
+      );
+    } catch (error: any) {
+      console.error("Error creating cancellation policy:", error.message);
+      responseSend(
+        res,
+        null,
+        error.message || "Error creating cancellation policy",
+        HTTP_STATUS_CODES.BAD_REQUEST
+      );
+    }
+  }
+
+  static async updatePolicy(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const policy = await cancellationPolicyService.updatePolicy(id, req.body);
+      if (!policy) {
+        responseSend(res, null, "Cancellation policy not found", HTTP_STATUS_CODES.NOT_FOUND);
+        return;
+      }
+      responseSend(
+        res,
+        { policy },
+        "Cancellation policy updated successfully",
+        HTTP_STATUS_CODES.OK
+      );
+    } catch (error: any) {
+      console.error("Error updating cancellation policy:", error.message);
+      responseSend(
+        res,
+        null,
+        error.message || "Error updating cancellation policy",
+        HTTP_STATUS_CODES.BAD_REQUEST
+      );
+    }
+  }
+
+  static async deletePolicy(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      await cancellationPolicyService.deletePolicy(id);
+      responseSend(res, null, "Cancellation policy deleted successfully", HTTP_STATUS_CODES.OK);
+    } catch (error: any) {
+      console.error("Error deleting cancellation policy:", error.message);
+      responseSend(
+        res,
+        null,
+        error.message || "Error deleting cancellation policy",
+        HTTP_STATUS_CODES.INTERNAL_SERVER_ERROR
+      );
+    }
+  }
+}
@@ -0,0 +1,65 @@
+import { Request, Response } from "express";
+import { HTTP_STATUS_CODES } from "../httpStatus/httpStatusCode";
+import { CheckinService } from "../services/checkin.service";
+import { responseSend } from "../config/response";
+import { HttpError } from "../utils/errors";
+
+// Interface to extend Request with user info
+interface AuthRequest extends Request {
+  user?: any;
+}
+
+const checkinService = new CheckinService();
+
+export class CheckinController {
+  static async checkIn(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      // Ensure user is authenticated
+      if (!req.user) {
+        responseSend(res, null, "Authentication required", HTTP_STATUS_CODES.UNAUTHORIZED);
+        return;
+      }
+
+      const { token, showtimeId } = req.body;
+
+      // Validate input
+      if (!token || typeof token !== "string" || !showtimeId) {
+        responseSend(res, null, "Ticket token and showtimeId are required", HTTP_STATUS_CODES.BAD_REQUEST);
+        return;
+      }
+
+      const result = await checkinService.checkIn(token, showtimeId, req.user.id);
+
+      responseSend(res, result, "Ticket checked in successfully", HTTP_STATUS_CODES.OK);
+    } catch (error: any) {
+      console.error("Error checking in ticket:", error.message);
+      if (error instanceof HttpError) {
+        responseSend(res, error.details || null, error.message, error.statusCode);
+        return;
+      }
+      responseSend(
+        res,
+        null,
+        error.message || "Error checking in ticket",
+        HTTP_STATUS_CODES.BAD_REQUEST
+      );
+    }
+  }
+
+  static async getAttendance(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const attendance = await checkinService.getAttendance(id);
+
+      responseSend(res, { attendance }, "Attendance fetched successfully", HTTP_STATUS_CODES.OK);
+    } catch (error: any) {
+      console.error("Error fetching attendance:", error.message);
+      responseSend(
+        res,
+        null,
+        error.message || "Error fetching attendance",
+        error instanceof HttpError ? error.statusCode : HTTP_STATUS_CODES.BAD_REQUEST
+      );
+    }
+  }
+}
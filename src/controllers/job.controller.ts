@@ -0,0 +1,21 @@
+import { Request, Response } from "express";
+import { HTTP_STATUS_CODES } from "../httpStatus/httpStatusCode";
+import { jobScheduler } from "../jobs/scheduler";
+import { responseSend } from "../config/response";
+
+export class JobController {
+  static async getJobs(req: Request, res: Response): Promise<void> {
+    try {
+      const jobs = jobScheduler.getStatuses();
+      responseSend(res, { jobs }, "Jobs fetched successfully", HTTP_STATUS_CODES.OK);
+    } catch (error: any) {
+      console.error("Error fetching jobs:", error.message);
+      responseSend(
+        res,
+        null,
+        error.message || "Error fetching jobs",
+        HTTP_STATUS_CODES.INTERNAL_SERVER_ERROR
+      );
+    }
+  }
+}
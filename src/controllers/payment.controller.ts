@@ -0,0 +1,67 @@
+import { Request, Response } from "express";
+import { HTTP_STATUS_CODES } from "../httpStatus/httpStatusCode";
+import { paymentStrategyRegistry } from "../patterns/strategy/PaymentStrategyRegistry";
+import { responseSend } from "../config/response";
+import { PAYMENT_WEBHOOK_SECRET } from "../config/payment";
+import { BookingService, GatewayEvent } from "../services/booking.service";
+import { verifyWebhookSignature, WEBHOOK_SIGNATURE_HEADER } from "../utils/webhookSignature";
+import { HttpError } from "../utils/errors";
+
+const bookingService = new BookingService();
+const GATEWAY_EVENT_TYPES = ["payment.succeeded", "payment.failed"];
+
+export class PaymentController {
+  static async getPaymentMethods(req: Request, res: Response): Promise<void> {
+    try {
+      const methods = paymentStrategyRegistry.list();
+      responseSend(res, { methods }, "Payment methods fetched successfully", HTTP_STATUS_CODES.OK);
+    } catch (error: any) {
+      console.error("Error fetching payment methods:", error.message);
+      responseSend(
+        res,
+        null,
+        error.message || "Error fetching payment methods",
+        HTTP_STATUS_CODES.INTERNAL_SERVER_ERROR
+      );
+    }
+  }
+
+  static async handleWebhook(req: Request, res: Response): Promise<void> {
+    try {
+      if (!PAYMENT_WEBHOOK_SECRET) {
+        responseSend(res, null, "Payment webhook is not configured", HTTP_STATUS_CODES.INTERNAL_SERVER_ERROR);
+        return;
+      }
+
+      // The signature covers the exact bytes the gateway sent, not the parsed JSON
+      const rawBody = req.rawBody ? req.rawBody.toString("utf8") : "";
+      if (!verifyWebhookSignature(rawBody, req.get(WEBHOOK_SIGNATURE_HEADER), PAYMENT_WEBHOOK_SECRET)) {
+        responseSend(res, null, "Invalid webhook signature", HTTP_STATUS_CODES.UNAUTHORIZED);
+        return;
+      }
+
+      const event = req.body as GatewayEvent;
+      if (!GATEWAY_EVENT_TYPES.includes(event?.type) || !event.data?.reference || !event.data?.paymentId) {
+        responseSend(res, null, "Unsupported webhook event", HTTP_STATUS_CODES.BAD_REQUEST);
+        return;
+      }
+
+      const payment = await bookingService.handleGatewayEvent(event);
+
+      responseSend(
+        res,
+        { received: true, payment },
+        payment ? "Webhook processed successfully" : "Webhook already processed",
+        HTTP_STATUS_CODES.OK
+      );
+    } catch (error: any) {
+      console.error("Error processing payment webhook:", error.message);
+      responseSend(
+        res,
+        null,
+        error.message || "Error processing payment webhook",
+        error instanceof HttpError ? error.statusCode : HTTP_STATUS_CODES.INTERNAL_SERVER_ERROR
+      );
+    }
+  }
+}
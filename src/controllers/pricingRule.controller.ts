@@ -0,0 +1,104 @@
+import { Request, Response } from "express";
+import { HTTP_STATUS_CODES } from "../httpStatus/httpStatusCode";
+import { PricingService } from "../services/pricing.service";
+import { responseSend } from "../config/response";
+
+const pricingService = new PricingService();
+
+export class PricingRuleController {
+  static async getAllRules(req: Request, res: Response): Promise<void> {
+    try {
+      const rules = await pricingService.getAllRules();
+      responseSend(res, { rules }, "Pricing rules fetched successfully", HTTP_STATUS_CODES.OK);
+    } catch (error: any) {
+      console.error("Error fetching pricing rules:", error.message);
+      responseSend(
+        res,
+        null,
+        error.message || "Error fetching pricing rules",
+        HTTP_STATUS_CODES.INTERNAL_SERVER_ERROR
+      );
+    }
+  }
+
+  static async getRuleById(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const rule = await pricingService.getRuleById(id);
+      if (!rule) {
+        responseSend(res, null, "Pricing rule not found", HTTP_STATUS_CODES.NOT_FOUND);
+        return;
+      }
+      responseSend(res, { rule }, "Pricing rule fetched successfully", HTTP_STATUS_CODES.OK);
+    } catch (error: any) {
+      console.error("Error fetching pricing rule:", error.message);
+      responseSend(
+        res,
+        null,
+        error.message || "Error fetching pricing rule",
+        HTTP_STATUS_CODES.INTERNAL_SERVER_ERROR
+      );
+    }
+  }
+
+  static async createRule(req: Request, res: Response): Promise<void> {
+    try {
+      const rule = await pricingService.createRule(req.body);
+      responseSend(
+        res,
+        { rule },
+        "Pricing rule created successfully",
+        HTTP_STATUS_CODES.CREATED
+      );
+    } catch (error: any) {
+      console.error("Error creating pricing rule:", error.message);
+      responseSend(
+        res,
+        null,
+        error.message || "Error creating pricing rule",
+        HTTP_STATUS_CODES.BAD_REQUEST
+      );
+    }
+  }
+
+  static async updateRule(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const rule = await pricingService.updateRule(id, req.body);
+      if (!rule) {
+        responseSend(res, null, "Pricing rule not found", HTTP_STATUS_CODES.NOT_FOUND);
+        return;
+      }
+      responseSend(
+        res,
+        { rule },
+        "Pricing rule updated successfully",
+        HTTP_STATUS_CODES.OK
+      );
+    } catch (error: any) {
+      console.error("Error updating pricing rule:", error.message);
+      responseSend(
+        res,
+        null,
+        error.message || "Error updating pricing rule",
+        HTTP_STATUS_CODES.BAD_REQUEST
+      );
+    }
+  }
+
+  static async deleteRule(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      await pricingService.deleteRule(id);
+      responseSend(res, null, "Pricing rule deleted successfully", HTTP_STATUS_CODES.OK);
+    } catch (error: any) {
+      console.error("Error deleting pricing rule:", error.message);
+      responseSend(
+        res,
+        null,
+        error.message || "Error deleting pricing rule",
+        HTTP_STATUS_CODES.INTERNAL_SERVER_ERROR
+      );
+    }
+  }
+}
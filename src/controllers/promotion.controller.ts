@@ -0,0 +1,104 @@
+import { Request, Response } from "express";
+import { HTTP_STATUS_CODES } from "../httpStatus/httpStatusCode";
+import { PromotionService } from "../services/promotion.service";
+import { responseSend } from "../config/response";
+
+const promotionService = new PromotionService();
+
+export class PromotionController {
+  static async getAllPromotions(req: Request, res: Response): Promise<void> {
+    try {
+      const promotions = await promotionService.getAllPromotions();
+      responseSend(res, { promotions }, "Promotions fetched successfully", HTTP_STATUS_CODES.OK);
+    } catch (error: any) {
+      console.error("Error fetching promotions:", error.message);
+      responseSend(
+        res,
+        null,
+        error.message || "Error fetching promotions",
+        HTTP_STATUS_CODES.INTERNAL_SERVER_ERROR
+      );
+    }
+  }
+
+  static async getPromotionById(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const promotion = await promotionService.getPromotionById(id);
+      if (!promotion) {
+        responseSend(res, null, "Promotion not found", HTTP_STATUS_CODES.NOT_FOUND);
+        return;
+      }
+      responseSend(res, { promotion }, "Promotion fetched successfully", HTTP_STATUS_CODES.OK);
+    } catch (error: any) {
+      console.error("Error fetching promotion:", error.message);
+      responseSend(
+        res,
+        null,
+        error.message || "Error fetching promotion",
+        HTTP_STATUS_CODES.INTERNAL_SERVER_ERROR
+      );
+    }
+  }
+
+  static async createPromotion(req: Request, res: Response): Promise<void> {
+    try {
+      const promotion = await promotionService.createPromotion(req.body);
+      responseSend(
+        res,
+        { promotion },
+        "Promotion created successfully",
+        HTTP_STATUS_CODES.CREATED
+      );
+    } catch (error: any) {
+      console.error("Error creating promotion:", error.message);
+      responseSend(
+        res,
+        null,
+        error.code === 11000 ? "Promotion code already exists" : error.message || "Error creating promotion",
+        error.code === 11000 ? HTTP_STATUS_CODES.CONFLICT : HTTP_STATUS_CODES.BAD_REQUEST
+      );
+    }
+  }
+
+  static async updatePromotion(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const promotion = await promotionService.updatePromotion(id, req.body);
+      if (!promotion) {
+        responseSend(res, null, "Promotion not found", HTTP_STATUS_CODES.NOT_FOUND);
+        return;
+      }
+      responseSend(
+        res,
+        { promotion },
+        "Promotion updated successfully",
+        HTTP_STATUS_CODES.OK
+      );
+    } catch (error: any) {
+      console.error("Error updating promotion:", error.message);
+      responseSend(
+        res,
+        null,
+        error.code === 11000 ? "Promotion code already exists" : error.message || "Error updating promotion",
+        error.code === 11000 ? HTTP_STATUS_CODES.CONFLICT : HTTP_STATUS_CODES.BAD_REQUEST
+      );
+    }
+  }
+
+  static async deletePromotion(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      await promotionService.deletePromotion(id);
+      responseSend(res, null, "Promotion deleted successfully", HTTP_STATUS_CODES.OK);
+    } catch (error: any) {
+      console.error("Error deleting promotion:", error.message);
+      responseSend(
+        res,
+        null,
+        error.message || "Error deleting promotion",
+        HTTP_STATUS_CODES.INTERNAL_SERVER_ERROR
+      );
+    }
+  }
+}
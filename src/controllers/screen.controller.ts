@@ -1,9 +1,12 @@
 import { Request, Response } from "express";
 import { HTTP_STATUS_CODES } from "../httpStatus/httpStatusCode";
 import { ScreenService } from "../services/screen.service";
+import { SeatLayoutService, LayoutFileFormat } from "../services/seatLayout.service";
 import { responseSend } from "../config/response"; // Import hàm responseSend
+import { HttpError } from "../utils/errors";
 
 const screenService = new ScreenService();
+const seatLayoutService = new SeatLayoutService();
 
 export class ScreenController {
   static async getAllScreens(req: Request, res: Response): Promise<void> {
@@ -103,7 +106,8 @@ export class ScreenController {
   static async getScreenSeats(req: Request, res: Response): Promise<void> {
     try {
       const { id } = req.params;
-      const seatingLayout = await screenService.getScreenSeats(id);
+      const version = req.query.version ? Number(req.query.version) : undefined;
+      const seatingLayout = await screenService.getScreenSeats(id, version);
 
       responseSend(
         res,
@@ -127,11 +131,12 @@ export class ScreenController {
       const { id } = req.params;
       const { seats } = req.body;
 
-      const count = await screenService.updateScreenSeats(id, seats);
+      const layout = await screenService.updateScreenSeats(id, seats);
 
+      // Existing showtimes keep their seats until the new version is propagated
       responseSend(
         res,
-        { count },
+        { count: layout.seats.length, version: layout.version },
         "Screen seats updated successfully",
         HTTP_STATUS_CODES.OK
       );
@@ -141,8 +146,122 @@ export class ScreenController {
         res,
         null,
         error.message || "Error updating screen seats",
+        error instanceof HttpError ? error.statusCode : HTTP_STATUS_CODES.BAD_REQUEST
+      );
+    }
+  }
+
+  static async getLayoutVersions(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const versions = await seatLayoutService.getVersions(id);
+
+      responseSend(res, { versions }, "Seat layout versions fetched successfully", HTTP_STATUS_CODES.OK);
+    } catch (error: any) {
+      console.error("Error fetching seat layout versions:", error.message);
+      responseSend(
+        res,
+        null,
+        error.message || "Error fetching seat layout versions",
+        HTTP_STATUS_CODES.INTERNAL_SERVER_ERROR
+      );
+    }
+  }
+
+  static async previewLayoutPropagation(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const version = req.query.version ? Number(req.query.version) : undefined;
+
+      // Future showtimes on an older version, with the seats each one would gain, lose or retype
+      const preview = await seatLayoutService.previewPropagation(id, version);
+
+      responseSend(res, { preview }, "Seat layout propagation preview generated", HTTP_STATUS_CODES.OK);
+    } catch (error: any) {
+      console.error("Error previewing seat layout propagation:", error.message);
+      responseSend(
+        res,
+        null,
+        error.message || "Error previewing seat layout propagation",
+        error instanceof HttpError ? error.statusCode : HTTP_STATUS_CODES.BAD_REQUEST
+      );
+    }
+  }
+
+  static async propagateLayout(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const version = req.body.version !== undefined ? Number(req.body.version) : undefined;
+
+      // Showtimes with sold or held seats affected by the change are skipped and reported as conflicts
+      const result = await seatLayoutService.propagate(id, version);
+
+      responseSend(
+        res,
+        { result },
+        `Seat layout propagated to ${result.migrated.length} showtime(s), ${result.conflicts.length} conflict(s)`,
+        HTTP_STATUS_CODES.OK
+      );
+    } catch (error: any) {
+      console.error("Error propagating seat layout:", error.message);
+      responseSend(
+        res,
+        null,
+        error.message || "Error propagating seat layout",
+        error instanceof HttpError ? error.statusCode : HTTP_STATUS_CODES.BAD_REQUEST
+      );
+    }
+  }
+
+  static async exportLayout(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const format: LayoutFileFormat = req.query.format === "csv" ? "csv" : "json";
+      const version = req.query.version ? Number(req.query.version) : undefined;
+
+      const file = await seatLayoutService.exportLayout(id, format, version);
+
+      res.setHeader("Content-Type", file.contentType);
+      res.setHeader("Content-Disposition", `attachment; filename="${file.filename}"`);
+      res.status(HTTP_STATUS_CODES.OK).send(file.content);
+    } catch (error: any) {
+      console.error("Error exporting seat layout:", error.message);
+      responseSend(
+        res,
+        null,
+        error.message || "Error exporting seat layout",
+        error instanceof HttpError ? error.statusCode : HTTP_STATUS_CODES.INTERNAL_SERVER_ERROR
+      );
+    }
+  }
+
+  static async importLayout(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      // CSV is sent as a text body, JSON as the usual JSON body
+      const format: LayoutFileFormat = req.query.format === "csv" || req.is("text/csv") ? "csv" : "json";
+      const dryRun = req.query.dryRun === "true";
+
+      const report = await seatLayoutService.importLayout(id, format, req.body, dryRun);
+
+      responseSend(
+        res,
+        { report },
+        dryRun ? "Seat layout is valid, nothing was changed" : `Seat layout imported as version ${report.version}`,
+        dryRun ? HTTP_STATUS_CODES.OK : HTTP_STATUS_CODES.CREATED
+      );
+    } catch (error: any) {
+      console.error("Error importing seat layout:", error.message);
+      if (error instanceof HttpError) {
+        responseSend(res, error.details || null, error.message, error.statusCode);
+        return;
+      }
+      responseSend(
+        res,
+        null,
+        error.message || "Error importing seat layout",
         HTTP_STATUS_CODES.BAD_REQUEST
       );
     }
   }
-}
\ No newline at end of file
+}
@@ -2,6 +2,7 @@ import { Request, Response } from "express";
 import { SeatService } from "../services/seat.service";
 import { HTTP_STATUS_CODES } from "../httpStatus/httpStatusCode";
 import { responseSend } from "../config/response";
+import { HttpError } from "../utils/errors";
 
 
 export class SeatController {
@@ -102,10 +103,33 @@ export class SeatController {
     static async reserveSeat(req: Request, res: Response) {
         try {
             const { seatId } = req.body;
-            const seat = await SeatService.updateSeat(seatId, {
-                status: "reserved",
-                expiresAt: new Date(Date.now() + 15 * 60 * 1000), // 15-minute reservation
-            });
+            if (!seatId) {
+                return responseSend(res, null, "Thiếu ID ghế", HTTP_STATUS_CODES.BAD_REQUEST);
+            }
+
+            const hold = await SeatService.reserveSeat(seatId, req.user?.id);
+            if (!hold) {
+                return responseSend(
+                    res,
+                    null,
+                    "Ghế không tồn tại",
+                    HTTP_STATUS_CODES.NOT_FOUND
+                );
+            }
+            responseSend(res, { seat: hold.seat, holdToken: hold.holdToken }, "Đã đặt ghế tạm thời", HTTP_STATUS_CODES.OK);
+        } catch (error) {
+            SeatController.sendHoldError(res, error, "Lỗi khi đặt ghế tạm thời");
+        }
+    }
+
+    static async extendHold(req: Request, res: Response) {
+        try {
+            const { seatId } = req.body;
+            if (!seatId) {
+                return responseSend(res, null, "Thiếu ID ghế", HTTP_STATUS_CODES.BAD_REQUEST);
+            }
+
+            const seat = await SeatService.extendHold(seatId, { userId: req.user?.id, role: req.user?.role });
             if (!seat) {
                 return responseSend(
                     res,
@@ -114,25 +138,20 @@ export class SeatController {
                     HTTP_STATUS_CODES.NOT_FOUND
                 );
             }
-            responseSend(res, seat, "Đã đặt ghế tạm thời", HTTP_STATUS_CODES.OK);
+            responseSend(res, seat, "Đã gia hạn giữ ghế", HTTP_STATUS_CODES.OK);
         } catch (error) {
-            responseSend(
-                res,
-                null,
-                "Lỗi khi đặt ghế tạm thời",
-                HTTP_STATUS_CODES.INTERNAL_SERVER_ERROR
-            );
+            SeatController.sendHoldError(res, error, "Lỗi khi gia hạn giữ ghế");
         }
     }
 
     static async bookSeat(req: Request, res: Response) {
         try {
-            const { seatId, bookingId } = req.body;
-            const seat = await SeatService.updateSeat(seatId, {
-                status: "booked",
-                bookingId,
-                expiresAt: undefined, // Clear expiration
-            });
+            const { seatId, holdToken } = req.body;
+            if (!seatId || !holdToken) {
+                return responseSend(res, null, "Thiếu ID ghế hoặc mã giữ ghế", HTTP_STATUS_CODES.BAD_REQUEST);
+            }
+
+            const seat = await SeatService.bookSeat(seatId, holdToken, { userId: req.user?.id, role: req.user?.role });
             if (!seat) {
                 return responseSend(
                     res,
@@ -143,23 +162,18 @@ export class SeatController {
             }
             responseSend(res, seat, "Đã xác nhận đặt ghế", HTTP_STATUS_CODES.OK);
         } catch (error) {
-            responseSend(
-                res,
-                null,
-                "Lỗi khi xác nhận đặt ghế",
-                HTTP_STATUS_CODES.INTERNAL_SERVER_ERROR
-            );
+            SeatController.sendHoldError(res, error, "Lỗi khi xác nhận đặt ghế");
         }
     }
 
     static async releaseSeat(req: Request, res: Response) {
         try {
             const { seatId } = req.body;
-            const seat = await SeatService.updateSeat(seatId, {
-                status: "available",
-                bookingId: undefined,
-                expiresAt: undefined,
-            });
+            if (!seatId) {
+                return responseSend(res, null, "Thiếu ID ghế", HTTP_STATUS_CODES.BAD_REQUEST);
+            }
+
+            const seat = await SeatService.releaseSeat(seatId, { userId: req.user?.id, role: req.user?.role });
             if (!seat) {
                 return responseSend(
                     res,
@@ -170,14 +184,22 @@ export class SeatController {
             }
             responseSend(res, seat, "Đã hủy đặt ghế", HTTP_STATUS_CODES.OK);
         } catch (error) {
-            responseSend(
-                res,
-                null,
-                "Lỗi khi hủy đặt ghế",
-                HTTP_STATUS_CODES.INTERNAL_SERVER_ERROR
-            );
+            SeatController.sendHoldError(res, error, "Lỗi khi hủy đặt ghế");
         }
     }
+
+    private static sendHoldError(res: Response, error: unknown, fallbackMessage: string) {
+        if (error instanceof HttpError) {
+            return responseSend(res, error.details || null, error.message, error.statusCode);
+        }
+        responseSend(
+            res,
+            null,
+            fallbackMessage,
+            HTTP_STATUS_CODES.INTERNAL_SERVER_ERROR
+        );
+    }
+
     // Thêm phương thức này vào SeatController
     static async getSeatsByShowtime(req: Request, res: Response) {
         try {
@@ -1,9 +1,12 @@
 import { Request, Response } from "express";
 import { HTTP_STATUS_CODES } from "../httpStatus/httpStatusCode";
 import { ShowtimeService } from "../services/showtime.service";
+import { PricingService } from "../services/pricing.service";
 import { responseSend } from "../config/response"; // Import hàm responseSend
+import { HttpError } from "../utils/errors";
 
 const showtimeService = new ShowtimeService();
+const pricingService = new PricingService();
 
 export class ShowtimeController {
   static async getAllShowtimes(req: Request, res: Response): Promise<void> {
@@ -184,4 +187,33 @@ export class ShowtimeController {
       );
     }
   }
-}
\ No newline at end of file
+
+  static async getPriceBreakdown(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+
+      // Optional ?at= shows the price for a booking made at that time (defaults to now)
+      const at = req.query.at ? new Date(req.query.at as string) : new Date();
+      if (isNaN(at.getTime())) {
+        responseSend(res, null, "Invalid at parameter", HTTP_STATUS_CODES.BAD_REQUEST);
+        return;
+      }
+
+      const breakdown = await pricingService.getPriceBreakdown(id, at);
+      responseSend(
+        res,
+        { breakdown },
+        "Showtime price breakdown fetched successfully",
+        HTTP_STATUS_CODES.OK
+      );
+    } catch (error: any) {
+      console.error("Error fetching showtime price breakdown:", error.message);
+      responseSend(
+        res,
+        null,
+        error.message || "Error fetching showtime price breakdown",
+        error instanceof HttpError ? error.statusCode : HTTP_STATUS_CODES.INTERNAL_SERVER_ERROR
+      );
+    }
+  }
+}
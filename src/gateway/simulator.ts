@@ -0,0 +1,186 @@
+// Bộ giả lập cổng thanh toán chuyển hướng: tạo phiên thanh toán, cho phép kịch bản approve/decline/timeout
+// và gửi kết quả về server qua webhook có chữ ký HMAC, giống một cổng thanh toán thật
+import crypto from "crypto";
+import express, { Application, Request, Response } from "express";
+import { PAYMENT_GATEWAY_URL, PAYMENT_WEBHOOK_URL, PAYMENT_WEBHOOK_SECRET } from "../config/payment";
+import { signWebhookPayload, WEBHOOK_SIGNATURE_HEADER } from "../utils/webhookSignature";
+
+type SimulatedOutcome = "approve" | "decline" | "timeout";
+
+interface SimulatedCheckout {
+    id: string;
+    amount: number;
+    currency: string;
+    reference: string;
+    status: "pending" | "approved" | "declined" | "timed_out";
+    refundedAmount: number;
+    createdAt: Date;
+}
+
+const OUTCOMES: SimulatedOutcome[] = ["approve", "decline", "timeout"];
+
+// Thời gian chờ trước khi tự động thực hiện kịch bản được truyền trong paymentDetails.simulate
+const SIMULATOR_DELAY_MS = Number(process.env.PAYMENT_GATEWAY_SIMULATOR_DELAY_MS) || 2000;
+
+const randomId = (prefix: string): string => `${prefix}_${crypto.randomBytes(12).toString("hex")}`;
+
+export class PaymentGatewaySimulator {
+    private checkouts: Map<string, SimulatedCheckout> = new Map(); // Các phiên thanh toán theo ID
+
+    createApp(): Application {
+        const app = express();
+        app.use(express.json());
+
+        app.post("/checkouts", (req: Request, res: Response) => this.createCheckout(req, res));
+        app.get("/checkouts/:id", (req: Request, res: Response) => this.getCheckout(req, res));
+        app.post("/checkouts/:id/:outcome", (req: Request, res: Response) => this.resolveCheckout(req, res));
+        app.post("/payments/:id/refunds", (req: Request, res: Response) => this.refund(req, res));
+
+        return app;
+    }
+
+    private createCheckout(req: Request, res: Response): void {
+        const { amount, currency, reference, simulate } = req.body;
+
+        if (!(Number(amount) > 0) || !currency || !reference) {
+            res.status(400).json({ message: "amount, currency and reference are required" });
+            return;
+        }
+
+        if (simulate !== undefined && !OUTCOMES.includes(simulate)) {
+            res.status(400).json({ message: `simulate must be one of: ${OUTCOMES.join(", ")}` });
+            return;
+        }
+
+        const checkout: SimulatedCheckout = {
+            id: randomId("gw"),
+            amount: Number(amount),
+            currency,
+            reference: String(reference),
+            status: "pending",
+            refundedAmount: 0,
+            createdAt: new Date()
+        };
+        this.checkouts.set(checkout.id, checkout);
+
+        // Kịch bản được chọn trước: tự động thực hiện sau một khoảng trễ như khách hàng thao tác trên cổng
+        if (simulate) {
+            setTimeout(() => {
+                this.resolve(checkout, simulate).catch(error => {
+                    console.error(`Gateway simulator failed to ${simulate} checkout ${checkout.id}:`, error);
+                });
+            }, SIMULATOR_DELAY_MS);
+        }
+
+        res.status(201).json({
+            id: checkout.id,
+            status: checkout.status,
+            checkoutUrl: `${PAYMENT_GATEWAY_URL}/checkouts/${checkout.id}`
+        });
+    }
+
+    private getCheckout(req: Request, res: Response): void {
+        const checkout = this.checkouts.get(req.params.id);
+        if (!checkout) {
+            res.status(404).json({ message: "Checkout not found" });
+            return;
+        }
+
+        res.status(200).json(checkout);
+    }
+
+    private async resolveCheckout(req: Request, res: Response): Promise<void> {
+        const checkout = this.checkouts.get(req.params.id);
+        const outcome = req.params.outcome as SimulatedOutcome;
+
+        if (!checkout) {
+            res.status(404).json({ message: "Checkout not found" });
+            return;
+        }
+
+        if (!OUTCOMES.includes(outcome)) {
+            res.status(400).json({ message: `Outcome must be one of: ${OUTCOMES.join(", ")}` });
+            return;
+        }
+
+        if (checkout.status !== "pending") {
+            res.status(409).json({ message: `Checkout is already ${checkout.status}` });
+            return;
+        }
+
+        try {
+            await this.resolve(checkout, outcome);
+            res.status(200).json(checkout);
+        } catch (error: any) {
+            res.status(502).json({ message: `Webhook delivery failed: ${error.message}`, checkout });
+        }
+    }
+
+    private refund(req: Request, res: Response): void {
+        const checkout = this.checkouts.get(req.params.id);
+        const amount = Number(req.body.amount);
+
+        if (!checkout) {
+            res.status(404).json({ message: "Payment not found" });
+            return;
+        }
+
+        if (checkout.status !== "approved") {
+            res.status(409).json({ message: "Only approved payments can be refunded" });
+            return;
+        }
+
+        if (!(amount > 0) || checkout.refundedAmount + amount > checkout.amount) {
+            res.status(400).json({ message: "Refund amount exceeds the captured amount" });
+            return;
+        }
+
+        checkout.refundedAmount += amount;
+        res.status(201).json({ id: randomId("gwr"), paymentId: checkout.id, amount, status: "succeeded" });
+    }
+
+    // Thực hiện kịch bản; timeout nghĩa là cổng không bao giờ gửi webhook
+    private async resolve(checkout: SimulatedCheckout, outcome: SimulatedOutcome): Promise<void> {
+        if (checkout.status !== "pending") {
+            return;
+        }
+
+        if (outcome === "timeout") {
+            checkout.status = "timed_out";
+            return;
+        }
+
+        checkout.status = outcome === "approve" ? "approved" : "declined";
+        await this.deliverWebhook(checkout);
+    }
+
+    private async deliverWebhook(checkout: SimulatedCheckout): Promise<void> {
+        const body = JSON.stringify({
+            id: randomId("evt"),
+            type: checkout.status === "approved" ? "payment.succeeded" : "payment.failed",
+            createdAt: new Date().toISOString(),
+            data: {
+                paymentId: checkout.id,
+                reference: checkout.reference,
+                amount: checkout.amount,
+                currency: checkout.currency,
+                reason: checkout.status === "declined" ? "Card declined by issuer" : undefined
+            }
+        });
+
+        const response = await fetch(PAYMENT_WEBHOOK_URL, {
+            method: "POST",
+            headers: {
+                "Content-Type": "application/json",
+                [WEBHOOK_SIGNATURE_HEADER]: signWebhookPayload(body, PAYMENT_WEBHOOK_SECRET)
+            },
+            body
+        });
+
+        if (!response.ok) {
+            throw new Error(`webhook endpoint answered ${response.status}`);
+        }
+    }
+}
+
+export const paymentGatewaySimulator = new PaymentGatewaySimulator();
@@ -0,0 +1,26 @@
+import { BookingExpiryService } from '../services/booking-expiry.service';
+import { Job } from './scheduler';
+
+/**
+ * Hủy các đặt chỗ đã quá hạn giữ ghế và gửi cảnh báo sắp hết hạn, dựa trên expiresAt trong database.
+ */
+export class BookingExpiryJob implements Job {
+  readonly name = 'booking-expiry';
+  readonly intervalMs = 30000; // Chạy mỗi 30 giây
+  private bookingExpiryService = new BookingExpiryService();
+
+  /**
+   * Hủy các đặt chỗ hết hạn và gửi cảnh báo cho các đặt chỗ sắp hết hạn
+   */
+  async run(): Promise<void> {
+    const now = new Date();
+    const expired = await this.bookingExpiryService.expireDueBookings(now);
+    await this.bookingExpiryService.sendExpiryWarnings(now);
+
+    if (expired > 0) {
+      console.log(`Expired ${expired} booking(s) at ${now.toISOString()}`);
+    }
+  }
+}
+
+export const bookingExpiryJob = new BookingExpiryJob();
@@ -0,0 +1,166 @@
+// Bộ lập lịch dùng chung cho các công việc nền: đăng ký theo tên, chạy định kỳ, không chạy chồng lấn
+
+export interface Job {
+  name: string; // Tên duy nhất của công việc
+  intervalMs: number; // Khoảng thời gian giữa hai lần chạy
+  run(): Promise<void>; // Thực hiện công việc một lần
+}
+
+export interface JobStatus {
+  name: string;
+  intervalMs: number;
+  isScheduled: boolean; // Đang được lập lịch chạy định kỳ
+  isRunning: boolean; // Đang chạy ngay lúc này
+  runCount: number;
+  skippedRuns: number; // Số lần bỏ qua vì lần chạy trước chưa xong
+  lastRunAt: Date | null;
+  lastDurationMs: number | null;
+  lastRunSucceeded: boolean | null;
+  lastError: string | null; // Lỗi gần nhất, giữ lại kể cả khi các lần chạy sau thành công
+  lastErrorAt: Date | null;
+}
+
+interface RegisteredJob {
+  job: Job;
+  intervalId: NodeJS.Timeout | null;
+  inFlight: Promise<void> | null; // Lần chạy đang diễn ra, để stopAll chờ nó kết thúc
+  status: JobStatus;
+}
+
+export class JobScheduler {
+  private jobs: Map<string, RegisteredJob> = new Map();
+
+  /**
+   * Đăng ký một công việc; tên phải là duy nhất
+   */
+  register(job: Job): void {
+    if (this.jobs.has(job.name)) {
+      throw new Error(`Job ${job.name} is already registered`);
+    }
+
+    this.jobs.set(job.name, {
+      job,
+      intervalId: null,
+      inFlight: null,
+      status: {
+        name: job.name,
+        intervalMs: job.intervalMs,
+        isScheduled: false,
+        isRunning: false,
+        runCount: 0,
+        skippedRuns: 0,
+        lastRunAt: null,
+        lastDurationMs: null,
+        lastRunSucceeded: null,
+        lastError: null,
+        lastErrorAt: null,
+      },
+    });
+  }
+
+  /**
+   * Bắt đầu tất cả công việc; mỗi công việc chạy ngay một lần rồi lặp lại theo chu kỳ
+   */
+  startAll(): void {
+    for (const name of this.jobs.keys()) {
+      this.start(name);
+    }
+  }
+
+  start(name: string): void {
+    const entry = this.getEntry(name);
+    if (entry.intervalId) {
+      console.log(`Job ${name} is already running`);
+      return;
+    }
+
+    console.log(`Starting job ${name} to run every ${entry.job.intervalMs / 1000} seconds`);
+
+    entry.intervalId = setInterval(() => {
+      void this.runNow(name);
+    }, entry.job.intervalMs);
+    entry.status.isScheduled = true;
+
+    void this.runNow(name);
+  }
+
+  /**
+   * Dừng tất cả công việc và chờ các lần chạy đang diễn ra hoàn thành
+   */
+  async stopAll(): Promise<void> {
+    for (const entry of this.jobs.values()) {
+      if (entry.intervalId) {
+        clearInterval(entry.intervalId);
+        entry.intervalId = null;
+        entry.status.isScheduled = false;
+        console.log(`Job ${entry.job.name} stopped`);
+      }
+    }
+
+    const inFlight = Array.from(this.jobs.values())
+      .map(entry => entry.inFlight)
+      .filter((run): run is Promise<void> => run !== null);
+    if (inFlight.length > 0) {
+      console.log(`Waiting for ${inFlight.length} running job(s) to finish`);
+      await Promise.all(inFlight);
+    }
+  }
+
+  /**
+   * Chạy một công việc ngay lập tức; bỏ qua nếu lần chạy trước chưa kết thúc
+   */
+  async runNow(name: string): Promise<boolean> {
+    const entry = this.getEntry(name);
+    if (entry.status.isRunning) {
+      entry.status.skippedRuns++;
+      console.log(`Skipping job ${name}: previous run is still in progress`);
+      return false;
+    }
+
+    entry.status.isRunning = true;
+    entry.inFlight = this.execute(entry);
+
+    try {
+      await entry.inFlight;
+    } finally {
+      entry.inFlight = null;
+    }
+
+    return true;
+  }
+
+  // Một lần chạy; lỗi được ghi vào trạng thái, không ném ra ngoài
+  private async execute(entry: RegisteredJob): Promise<void> {
+    const name = entry.job.name;
+    const startedAt = new Date();
+
+    try {
+      await entry.job.run();
+      entry.status.lastRunSucceeded = true;
+    } catch (error: any) {
+      console.error(`Error in job ${name}:`, error);
+      entry.status.lastRunSucceeded = false;
+      entry.status.lastError = error?.message || String(error);
+      entry.status.lastErrorAt = new Date();
+    } finally {
+      entry.status.isRunning = false;
+      entry.status.runCount++;
+      entry.status.lastRunAt = startedAt;
+      entry.status.lastDurationMs = Date.now() - startedAt.getTime();
+    }
+  }
+
+  getStatuses(): JobStatus[] {
+    return Array.from(this.jobs.values()).map(entry => ({ ...entry.status }));
+  }
+
+  private getEntry(name: string): RegisteredJob {
+    const entry = this.jobs.get(name);
+    if (!entry) {
+      throw new Error(`Job ${name} is not registered`);
+    }
+    return entry;
+  }
+}
+
+export const jobScheduler = new JobScheduler();
@@ -1,58 +1,23 @@
 import { SeatService } from '../services/seat.service';
+import { Job } from './scheduler';
 
 /**
- * Giải phóng các ghế được đặt tạm thời nhưng đã quá thời gian hết hạn (15 phút).
+ * Giải phóng các ghế được đặt tạm thời nhưng đã quá thời gian hết hạn.
  */
-export class SeatCleanupJob {
-  private intervalId: NodeJS.Timeout | null = null;
-  private readonly CLEANUP_INTERVAL = 60000; // Chạy mỗi 1 phút
-
-  /**
-   * Bắt đầu công việc dọn dẹp tự động
-   */
-  start(): void {
-    if (this.intervalId) {
-      console.log('Seat cleanup job is already running');
-      return;
-    }
-
-    console.log('Starting seat cleanup job to run every minute');
-    
-    this.intervalId = setInterval(async () => {
-      try {
-        await this.cleanupExpiredSeats();
-      } catch (error) {
-        console.error('Error in seat cleanup job:', error);
-      }
-    }, this.CLEANUP_INTERVAL);
-  }
-
-  /**
-   * Dừng công việc dọn dẹp
-   */
-  stop(): void {
-    if (this.intervalId) {
-      clearInterval(this.intervalId);
-      this.intervalId = null;
-      console.log('Seat cleanup job stopped');
-    }
-  }
+export class SeatCleanupJob implements Job {
+  readonly name = 'seat-cleanup';
+  readonly intervalMs = 60000; // Chạy mỗi 1 phút
 
   /**
    * Thực hiện dọn dẹp các ghế đã hết hạn
    */
-  private async cleanupExpiredSeats(): Promise<void> {
-    console.log(`Running seat cleanup job at ${new Date().toISOString()}`);
-    await SeatService.releaseExpiredSeats();
-  }
+  async run(): Promise<void> {
+    const released = await SeatService.releaseExpiredSeats();
 
-  /**
-   * Chạy công việc dọn dẹp ngay lập tức một lần
-   */
-  async runNow(): Promise<void> {
-    console.log(`Running immediate seat cleanup at ${new Date().toISOString()}`);
-    await SeatService.releaseExpiredSeats();
+    if (released > 0) {
+      console.log(`Released ${released} expired seat(s) at ${new Date().toISOString()}`);
+    }
   }
 }
 
-export const seatCleanupJob = new SeatCleanupJob();
\ No newline at end of file
+export const seatCleanupJob = new SeatCleanupJob();
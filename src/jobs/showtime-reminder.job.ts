@@ -0,0 +1,24 @@
+import { ReminderService } from '../services/reminder.service';
+import { Job } from './scheduler';
+
+/**
+ * Gửi nhắc nhở cho các đặt chỗ đã xác nhận có suất chiếu sắp bắt đầu.
+ */
+export class ShowtimeReminderJob implements Job {
+  readonly name = 'showtime-reminder';
+  readonly intervalMs = 5 * 60000; // Chạy mỗi 5 phút
+  private reminderService = new ReminderService();
+
+  /**
+   * Gửi nhắc nhở cho các suất chiếu sắp diễn ra
+   */
+  async run(): Promise<void> {
+    const sent = await this.reminderService.sendUpcomingShowtimeReminders();
+
+    if (sent > 0) {
+      console.log(`Sent ${sent} showtime reminder(s) at ${new Date().toISOString()}`);
+    }
+  }
+}
+
+export const showtimeReminderJob = new ShowtimeReminderJob();
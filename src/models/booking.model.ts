@@ -1,25 +1,260 @@
 import mongoose, { Schema, Document } from "mongoose";
 
+export interface IRefund {
+  amount: number;
+  seat?: mongoose.Types.ObjectId;
+  transactionId?: string;
+  refundTransactionId?: string;
+  refundedAt: Date;
+  success: boolean;
+  message?: string;
+}
+
+export interface IAppliedDiscount {
+  promotionId: mongoose.Types.ObjectId;
+  code: string;
+  discountType: "percent" | "fixed";
+  discountValue: number;
+  amount: number;
+  refundable?: boolean;
+}
+
+export interface ILineItemAdjustment {
+  ruleId?: mongoose.Types.ObjectId;
+  name: string;
+  stage: "showtime" | "booking";
+  amount: number;
+}
+
+export interface ILineItemDiscount {
+  source: "category" | "promotion";
+  code: string;
+  amount: number;
+}
+
+export interface ILineItemFee {
+  name: string;
+  amount: number;
+}
+
+export interface IBookingLineItem {
+  seat: mongoose.Types.ObjectId;
+  seatType: string;
+  category: string;
+  basePrice: number;
+  adjustments: ILineItemAdjustment[];
+  seatPrice: number;
+  discounts: ILineItemDiscount[];
+  fees: ILineItemFee[];
+  finalPrice: number;
+}
+
+export interface IBookingCharge {
+  paymentMethod: string;
+  transactionId: string;
+  amount: number;
+  chargedAt: Date;
+}
+
+export interface IBookingExchange {
+  fromShowtimeId: mongoose.Types.ObjectId;
+  toShowtimeId: mongoose.Types.ObjectId;
+  fromSeats: mongoose.Types.ObjectId[];
+  toSeats: mongoose.Types.ObjectId[];
+  previousAmount: number;
+  newAmount: number;
+  priceDifference: number;
+  paymentMethod?: string;
+  transactionId?: string;
+  exchangedAt: Date;
+}
+
+export interface IInvoiceLine {
+  row?: string;
+  number?: number;
+  seatType: string;
+  category: string;
+  seatPrice: number;
+  discountAmount: number;
+  feeAmount: number;
+  finalPrice: number;
+}
+
+// Nội dung hóa đơn được chốt lúc thanh toán, không đổi theo dữ liệu đặt chỗ hay suất chiếu sau này
+export interface IInvoiceSnapshot {
+  customerName?: string;
+  customerEmail?: string;
+  paymentMethod?: string;
+  transactionId?: string;
+  movieTitle: string;
+  theaterName: string;
+  screenName: string;
+  startTime?: Date;
+  lines: IInvoiceLine[];
+  subtotalAmount: number;
+  discountAmount: number;
+  feeAmount: number;
+  totalAmount: number;
+}
+
+export interface IInvoice extends IInvoiceSnapshot {
+  number: string;
+  issuedAt: Date;
+  vatRate: number;
+}
+
 export interface IBooking extends Document {
   userId: mongoose.Types.ObjectId;
   showtimeId: mongoose.Types.ObjectId;
   seats: mongoose.Types.ObjectId[];
+  lineItems: IBookingLineItem[];
+  subtotalAmount?: number;
+  feeAmount?: number;
   totalAmount: number;
-  paymentStatus: "pending" | "completed" | "failed" | "refunded";
+  discount?: IAppliedDiscount;
+  paymentStatus: "pending" | "processing" | "completed" | "failed" | "refunded" | "refund_failed";
   bookingStatus: "reserved" | "confirmed" | "cancelled";
   paymentMethod: string;
   transactionId?: string;
+  charges: IBookingCharge[];
   bookedAt: Date;
+  expiresAt?: Date;
+  extensionCount: number;
+  expiryWarningsSent: number[];
+  cancelledAt?: Date;
+  cancellationReason?: string;
+  reminderSentAt?: Date;
+  refunds: IRefund[];
+  exchanges: IBookingExchange[];
+  invoice?: IInvoice;
 }
 
+// Mỗi lần hoàn tiền (thành công hay thất bại) được lưu lại để đối soát
+const RefundSchema: Schema = new Schema({
+  amount: { type: Number, required: true, min: 0 },
+  // Ghế được hoàn tiền khi chỉ hủy một phần đặt chỗ
+  seat: { type: Schema.Types.ObjectId, ref: "Seat" },
+  // Giao dịch thu tiền được hoàn
+  transactionId: { type: String },
+  refundTransactionId: { type: String },
+  refundedAt: { type: Date, default: Date.now },
+  success: { type: Boolean, required: true },
+  message: { type: String },
+}, { _id: false });
+
+// Mã khuyến mãi đã áp dụng, lưu lại giá trị tại thời điểm đặt chỗ
+const AppliedDiscountSchema: Schema = new Schema({
+  promotionId: { type: Schema.Types.ObjectId, ref: "Promotion", required: true },
+  code: { type: String, required: true },
+  discountType: { type: String, enum: ["percent", "fixed"], required: true },
+  discountValue: { type: Number, required: true },
+  amount: { type: Number, required: true, min: 0 },
+  // Chính sách hoàn tiền của mã tại thời điểm đặt chỗ; bỏ trống là được hoàn
+  refundable: { type: Boolean },
+}, { _id: false });
+
+// Ảnh chụp giá của từng ghế tại thời điểm đặt chỗ, không đổi khi giá suất chiếu thay đổi sau đó
+const BookingLineItemSchema: Schema = new Schema({
+  seat: { type: Schema.Types.ObjectId, ref: "Seat", required: true },
+  seatType: { type: String, required: true },
+  category: { type: String, enum: ["adult", "child", "student", "senior"], default: "adult" },
+  // Giá gốc của loại ghế, trước mọi quy tắc giá
+  basePrice: { type: Number, required: true, min: 0 },
+  // Các quy tắc giá đã áp dụng (phụ thu hoặc giảm giá)
+  adjustments: [{
+    _id: false,
+    ruleId: { type: Schema.Types.ObjectId, ref: "PricingRule" },
+    name: { type: String, required: true },
+    stage: { type: String, enum: ["showtime", "booking"], required: true },
+    amount: { type: Number, required: true },
+  }],
+  // Giá ghế sau quy tắc giá
+  seatPrice: { type: Number, required: true, min: 0 },
+  // Giảm giá theo đối tượng khán giả và mã khuyến mãi (số dương)
+  discounts: [{
+    _id: false,
+    source: { type: String, enum: ["category", "promotion"], required: true },
+    code: { type: String, required: true },
+    amount: { type: Number, required: true, min: 0 },
+  }],
+  fees: [{
+    _id: false,
+    name: { type: String, required: true },
+    amount: { type: Number, required: true, min: 0 },
+  }],
+  // Số tiền thực trả cho ghế này
+  finalPrice: { type: Number, required: true, min: 0 },
+}, { _id: false });
+
+// Một khoản tiền đã thu của đặt chỗ (thanh toán ban đầu hoặc phần trả thêm khi đổi ghế); mỗi khoản chỉ hoàn được tối đa số đã thu
+const BookingChargeSchema: Schema = new Schema({
+  paymentMethod: { type: String, required: true },
+  transactionId: { type: String, required: true },
+  amount: { type: Number, required: true, min: 0 },
+  chargedAt: { type: Date, default: Date.now },
+}, { _id: false });
+
+// Lịch sử đổi ghế hoặc đổi suất chiếu của một đặt chỗ đã thanh toán
+const BookingExchangeSchema: Schema = new Schema({
+  fromShowtimeId: { type: Schema.Types.ObjectId, ref: "Showtime", required: true },
+  toShowtimeId: { type: Schema.Types.ObjectId, ref: "Showtime", required: true },
+  fromSeats: [{ type: Schema.Types.ObjectId, ref: "Seat" }],
+  toSeats: [{ type: Schema.Types.ObjectId, ref: "Seat" }],
+  previousAmount: { type: Number, required: true, min: 0 },
+  newAmount: { type: Number, required: true, min: 0 },
+  // Số dương là khách trả thêm, số âm là số tiền được hoàn lại
+  priceDifference: { type: Number, required: true },
+  // Phương thức và mã giao dịch của khoản trả thêm
+  paymentMethod: { type: String },
+  transactionId: { type: String },
+  exchangedAt: { type: Date, default: Date.now },
+}, { _id: false });
+
+// Giá của một ghế trên hóa đơn
+const InvoiceLineSchema: Schema = new Schema({
+  row: { type: String },
+  number: { type: Number },
+  seatType: { type: String, required: true },
+  category: { type: String, required: true },
+  seatPrice: { type: Number, required: true },
+  discountAmount: { type: Number, default: 0 },
+  feeAmount: { type: Number, default: 0 },
+  finalPrice: { type: Number, required: true },
+}, { _id: false });
+
+// Hóa đơn được đánh số một lần khi thanh toán thành công; các lần in sau dùng lại số, thuế suất và nội dung đã chốt
+const InvoiceSchema: Schema = new Schema({
+  number: { type: String, required: true },
+  issuedAt: { type: Date, required: true },
+  vatRate: { type: Number, required: true, min: 0 },
+  customerName: { type: String },
+  customerEmail: { type: String },
+  paymentMethod: { type: String },
+  transactionId: { type: String },
+  movieTitle: { type: String },
+  theaterName: { type: String },
+  screenName: { type: String },
+  startTime: { type: Date },
+  lines: [InvoiceLineSchema],
+  subtotalAmount: { type: Number, min: 0 },
+  discountAmount: { type: Number, default: 0, min: 0 },
+  feeAmount: { type: Number, default: 0, min: 0 },
+  totalAmount: { type: Number, min: 0 },
+}, { _id: false });
+
 const BookingSchema: Schema = new Schema({
   userId: { type: Schema.Types.ObjectId, ref: "User", required: true },
   showtimeId: { type: Schema.Types.ObjectId, ref: "Showtime", required: true },
   seats: [{ type: Schema.Types.ObjectId, ref: "Seat", required: true }],
+  lineItems: [BookingLineItemSchema],
+  // Tổng giá vé trước mã khuyến mãi và phí
+  subtotalAmount: { type: Number, min: 0 },
+  feeAmount: { type: Number, default: 0, min: 0 },
   totalAmount: { type: Number, required: true },
+  discount: { type: AppliedDiscountSchema },
   paymentStatus: {
     type: String,
-    enum: ["pending", "completed", "failed", "refunded"],
+    enum: ["pending", "processing", "completed", "failed", "refunded", "refund_failed"],
     default: "pending",
   },
   bookingStatus: {
@@ -29,9 +264,28 @@ const BookingSchema: Schema = new Schema({
   },
   paymentMethod: { type: String },
   transactionId: { type: String },
+  charges: [BookingChargeSchema],
   bookedAt: { type: Date, default: Date.now },
+  // Hạn giữ ghế của đặt chỗ chưa thanh toán
+  expiresAt: { type: Date },
+  extensionCount: { type: Number, default: 0, min: 0 },
+  // Các mốc cảnh báo sắp hết hạn (phút) đã gửi, để nhiều instance không gửi trùng
+  expiryWarningsSent: [{ type: Number }],
+  cancelledAt: { type: Date },
+  cancellationReason: { type: String },
+  reminderSentAt: { type: Date },
+  refunds: [RefundSchema],
+  exchanges: [BookingExchangeSchema],
+  invoice: { type: InvoiceSchema },
 }, { timestamps: true });
 
+// Phục vụ việc quét các đặt chỗ hết hạn giữ ghế
+BookingSchema.index({ bookingStatus: 1, expiresAt: 1 });
+// Phục vụ việc đếm số lần một người dùng đã dùng mã khuyến mãi
+BookingSchema.index({ "discount.promotionId": 1, userId: 1 }, { sparse: true });
+// Số hóa đơn không được trùng
+BookingSchema.index({ "invoice.number": 1 }, { unique: true, sparse: true });
+
 // Validation: Ensure all seats belong to the same Showtime
 BookingSchema.pre<IBooking>("save", async function (next) {
   const Seat = mongoose.model("Seat");
@@ -0,0 +1,53 @@
+import mongoose, { Schema, Document } from "mongoose";
+
+export interface ICancellationTier {
+  minHoursBefore: number;
+  refundPercent: number;
+}
+
+export interface ICancellationPolicy extends Document {
+  name: string;
+  description?: string;
+  scope: "default" | "theater" | "showtime";
+  theaterId?: mongoose.Types.ObjectId;
+  showtimeId?: mongoose.Types.ObjectId;
+  tiers: ICancellationTier[];
+  isActive: boolean;
+}
+
+// Hủy trước suất chiếu ít nhất minHoursBefore giờ thì được hoàn refundPercent% số tiền đã trả
+const CancellationTierSchema: Schema = new Schema({
+  minHoursBefore: { type: Number, required: true, min: 0 },
+  refundPercent: { type: Number, required: true, min: 0, max: 100 },
+}, { _id: false });
+
+const CancellationPolicySchema: Schema = new Schema({
+  name: { type: String, required: true },
+  description: { type: String },
+  // Chính sách của suất chiếu được ưu tiên hơn của rạp, của rạp ưu tiên hơn chính sách mặc định
+  scope: { type: String, enum: ["default", "theater", "showtime"], default: "default" },
+  theaterId: { type: Schema.Types.ObjectId, ref: "Theater" },
+  showtimeId: { type: Schema.Types.ObjectId, ref: "Showtime" },
+  // Hủy muộn hơn mọi mốc thì không được hủy
+  tiers: [CancellationTierSchema],
+  isActive: { type: Boolean, default: true },
+}, { timestamps: true });
+
+CancellationPolicySchema.index({ scope: 1, theaterId: 1, showtimeId: 1, isActive: 1 });
+
+// Validation: phạm vi phải đi kèm rạp hoặc suất chiếu tương ứng, và phải có ít nhất một mốc
+CancellationPolicySchema.pre<ICancellationPolicy>("validate", function (next) {
+  if (this.scope === "theater" && !this.theaterId) {
+    next(new Error("A theater cancellation policy requires theaterId"));
+  } else if (this.scope === "showtime" && !this.showtimeId) {
+    next(new Error("A showtime cancellation policy requires showtimeId"));
+  } else if (!this.tiers || this.tiers.length === 0) {
+    next(new Error("A cancellation policy needs at least one tier"));
+  } else if (new Set(this.tiers.map(tier => tier.minHoursBefore)).size !== this.tiers.length) {
+    next(new Error("Cancellation tiers must have distinct minHoursBefore values"));
+  } else {
+    next();
+  }
+});
+
+export const CancellationPolicy = mongoose.model<ICancellationPolicy>("CancellationPolicy", CancellationPolicySchema);
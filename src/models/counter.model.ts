@@ -0,0 +1,24 @@
+import mongoose, { Schema, Document, ClientSession } from "mongoose";
+
+export interface ICounter extends Document<string> {
+  seq: number;
+}
+
+// Bộ đếm tuần tự theo tên (vd. số hóa đơn theo năm)
+const CounterSchema: Schema = new Schema({
+  _id: { type: String, required: true },
+  seq: { type: Number, default: 0 },
+}, { versionKey: false });
+
+export const Counter = mongoose.model<ICounter>("Counter", CounterSchema);
+
+// Lấy số tiếp theo của bộ đếm; chạy trong transaction của bên gọi để số bị bỏ khi transaction bị hủy
+export const nextSequence = async (name: string, session?: ClientSession): Promise<number> => {
+  const counter = await Counter.findOneAndUpdate(
+    { _id: name },
+    { $inc: { seq: 1 } },
+    { new: true, upsert: true, session }
+  );
+
+  return counter!.seq;
+};
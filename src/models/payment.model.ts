@@ -0,0 +1,42 @@
+import mongoose, { Schema, Document } from "mongoose";
+
+export interface IPayment extends Document {
+  bookingId: mongoose.Types.ObjectId;
+  userId: mongoose.Types.ObjectId;
+  idempotencyKey: string;
+  strategy: string;
+  amount: number;
+  currency: string;
+  status: "processing" | "pending" | "succeeded" | "failed";
+  transactionId?: string;
+  checkoutUrl?: string;
+  error?: string;
+  completedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Mỗi lần thử thanh toán một đặt chỗ
+const PaymentSchema: Schema = new Schema({
+  bookingId: { type: Schema.Types.ObjectId, ref: "Booking", required: true },
+  userId: { type: Schema.Types.ObjectId, ref: "User", required: true },
+  idempotencyKey: { type: String, required: true },
+  strategy: { type: String, required: true },
+  amount: { type: Number, required: true, min: 0 },
+  currency: { type: String, required: true },
+  status: {
+    type: String,
+    enum: ["processing", "pending", "succeeded", "failed"],
+    default: "processing",
+  },
+  transactionId: { type: String }, // ID giao dịch, hoặc ID thanh toán phía cổng khi đang chờ webhook
+  checkoutUrl: { type: String }, // Trang thanh toán của cổng khi status là "pending"
+  error: { type: String },
+  completedAt: { type: Date },
+}, { timestamps: true });
+
+// Một khóa idempotency chỉ ứng với một lần thử thanh toán của mỗi người dùng
+PaymentSchema.index({ userId: 1, idempotencyKey: 1 }, { unique: true });
+PaymentSchema.index({ bookingId: 1, createdAt: -1 });
+
+export const Payment = mongoose.model<IPayment>("Payment", PaymentSchema);
@@ -0,0 +1,48 @@
+import mongoose, { Schema, Document } from "mongoose";
+
+export type SeatType = "standard" | "premium" | "vip";
+
+export interface IPricingRule extends Document {
+  name: string;
+  description?: string;
+  conditions: {
+    daysOfWeek: number[];
+    startTime?: string;
+    endTime?: string;
+    screenTypes: string[];
+    dates: string[];
+    minLeadHours?: number;
+  };
+  seatTypes: SeatType[];
+  adjustmentType: "percent" | "fixed";
+  adjustmentValue: number;
+  priority: number;
+  isActive: boolean;
+}
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const PricingRuleSchema: Schema = new Schema({
+  name: { type: String, required: true },
+  description: { type: String },
+  // Mọi điều kiện được đặt phải cùng thỏa; điều kiện bỏ trống thì không giới hạn
+  conditions: {
+    daysOfWeek: [{ type: Number, min: 0, max: 6 }], // 0 = Chủ nhật
+    startTime: { type: String, match: TIME_PATTERN }, // "HH:mm", giờ bắt đầu suất chiếu
+    endTime: { type: String, match: TIME_PATTERN }, // "HH:mm", không bao gồm
+    screenTypes: [{ type: String, enum: ["standard", "imax", "vip", "4dx"] }],
+    dates: [{ type: String, match: DATE_PATTERN }], // Ngày lễ "YYYY-MM-DD"
+    // Đặt vé sớm: chỉ xét lúc đặt chỗ, khi còn ít nhất số giờ này trước suất chiếu
+    minLeadHours: { type: Number, min: 0 },
+  },
+  seatTypes: [{ type: String, enum: ["standard", "premium", "vip"] }],
+  // Số dương là phụ thu, số âm là giảm giá
+  adjustmentType: { type: String, enum: ["percent", "fixed"], required: true },
+  adjustmentValue: { type: Number, required: true },
+  // Quy tắc có priority nhỏ hơn được áp dụng trước
+  priority: { type: Number, default: 0 },
+  isActive: { type: Boolean, default: true },
+}, { timestamps: true });
+
+export const PricingRule = mongoose.model<IPricingRule>("PricingRule", PricingRuleSchema);
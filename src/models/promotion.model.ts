@@ -0,0 +1,54 @@
+import mongoose, { Schema, Document } from "mongoose";
+
+export interface IPromotion extends Document {
+  code: string;
+  description?: string;
+  discountType: "percent" | "fixed";
+  discountValue: number;
+  validFrom: Date;
+  validUntil: Date;
+  maxUses?: number;
+  maxUsesPerUser?: number;
+  usedCount: number;
+  eligibleMovies: mongoose.Types.ObjectId[];
+  eligibleTheaters: mongoose.Types.ObjectId[];
+  eligibleSeatTypes: ("standard" | "premium" | "vip")[];
+  minSpend: number;
+  refundable: boolean;
+  isActive: boolean;
+}
+
+const PromotionSchema: Schema = new Schema({
+  code: { type: String, required: true, unique: true, uppercase: true, trim: true },
+  description: { type: String },
+  discountType: { type: String, enum: ["percent", "fixed"], required: true },
+  discountValue: { type: Number, required: true, min: 0 },
+  validFrom: { type: Date, required: true },
+  validUntil: { type: Date, required: true },
+  // Bỏ trống nghĩa là không giới hạn
+  maxUses: { type: Number, min: 1 },
+  maxUsesPerUser: { type: Number, min: 1 },
+  // Số đặt chỗ chưa bị hủy đang dùng mã này
+  usedCount: { type: Number, default: 0, min: 0 },
+  // Danh sách rỗng nghĩa là áp dụng cho tất cả
+  eligibleMovies: [{ type: Schema.Types.ObjectId, ref: "Movie" }],
+  eligibleTheaters: [{ type: Schema.Types.ObjectId, ref: "Theater" }],
+  eligibleSeatTypes: [{ type: String, enum: ["standard", "premium", "vip"] }],
+  minSpend: { type: Number, default: 0, min: 0 },
+  // Vé mua bằng mã không hoàn tiền được thì khi hủy không được hoàn lại
+  refundable: { type: Boolean, default: true },
+  isActive: { type: Boolean, default: true },
+}, { timestamps: true });
+
+// Validation: thời gian hiệu lực và giá trị giảm giá phải hợp lệ
+PromotionSchema.pre<IPromotion>("validate", function (next) {
+  if (this.validUntil <= this.validFrom) {
+    next(new Error("validUntil must be greater than validFrom"));
+  } else if (this.discountType === "percent" && this.discountValue > 100) {
+    next(new Error("A percent discount cannot exceed 100"));
+  } else {
+    next();
+  }
+});
+
+export const Promotion = mongoose.model<IPromotion>("Promotion", PromotionSchema);
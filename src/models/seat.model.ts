@@ -1,35 +1,60 @@
 import mongoose, { Schema, Document } from "mongoose";
+import { SeatKind, SEAT_KINDS } from "./seatLayout.model";
 
 export interface ISeat extends Document {
   screenId: mongoose.Types.ObjectId;
   row: string;
   seatNumber: number;
   seatType: "standard" | "premium" | "vip";
+  kind?: SeatKind;
+  x?: number;
+  y?: number;
+  groupId?: string;
   isActive: boolean;
   showtimeId: mongoose.Types.ObjectId;
   bookingId?: mongoose.Types.ObjectId;
+  heldBy?: mongoose.Types.ObjectId;
+  holdToken?: string;
+  holdExtensions?: number;
   status: "reserved" | "booked" | "available";
   expiresAt?: Date;
+  checkedInAt?: Date;
+  checkedInBy?: mongoose.Types.ObjectId;
 }
 
+// Ghế của một suất chiếu (tồn kho bán vé); sơ đồ ghế của phòng chiếu nằm ở SeatLayout
 const SeatSchema: Schema = new Schema(
   {
     screenId: { type: Schema.Types.ObjectId, ref: "Screen", required: true },
     row: { type: String, required: true },
     seatNumber: { type: Number, required: true },
     seatType: { type: String, enum: ["standard", "premium", "vip"], default: "standard" },
+    // Loại chỗ, vị trí trên lưới và nhóm ghế bán cùng nhau, sao chép từ sơ đồ phòng chiếu
+    kind: { type: String, enum: SEAT_KINDS, default: "regular" },
+    x: { type: Number, min: 0 },
+    y: { type: Number, min: 0 },
+    groupId: { type: String },
     isActive: { type: Boolean, default: true },
 
     // Thông tin đặt ghế
     showtimeId: { type: Schema.Types.ObjectId, ref: "Showtime", required: true },
     bookingId: { type: Schema.Types.ObjectId, ref: "Booking" },
+    heldBy: { type: Schema.Types.ObjectId, ref: "User" },
+    // Token chỉ trả về cho người giữ ghế, không lộ ra trong các truy vấn thông thường
+    holdToken: { type: String, select: false },
+    holdExtensions: { type: Number, min: 0 },
     status: { type: String, enum: ["reserved", "booked", "available"], default: "available" },
     expiresAt: { type: Date },
+    // Thời điểm vé của ghế được soát tại cửa và nhân viên đã soát
+    checkedInAt: { type: Date },
+    checkedInBy: { type: Schema.Types.ObjectId, ref: "User" },
   },
   { timestamps: true }
 );
 
 // Đảm bảo mỗi ghế trong một suất chiếu là duy nhất
 SeatSchema.index({ showtimeId: 1, row: 1, seatNumber: 1 }, { unique: true });
+// Phục vụ việc kiểm tra ghế đôi được bán đủ cả nhóm
+SeatSchema.index({ showtimeId: 1, groupId: 1 }, { sparse: true });
 
 export const Seat = mongoose.model<ISeat>("Seat", SeatSchema);
@@ -0,0 +1,124 @@
+import mongoose, { Schema, Document } from "mongoose";
+
+export type SeatKind = "regular" | "couple" | "wheelchair" | "companion";
+
+export interface ILayoutSeat {
+  row: string;
+  seatNumber: number;
+  seatType: "standard" | "premium" | "vip";
+  kind?: SeatKind;
+  // Tọa độ trên lưới sơ đồ; ô không có ghế là lối đi hoặc khoảng trống
+  x?: number;
+  y?: number;
+  // Các ghế cùng groupId (vd. hai nửa của ghế đôi) phải được bán cùng nhau
+  groupId?: string;
+  isActive: boolean;
+}
+
+export interface ISeatLayout extends Document {
+  screenId: mongoose.Types.ObjectId;
+  version: number;
+  seats: ILayoutSeat[];
+}
+
+export const SEAT_KINDS: SeatKind[] = ["regular", "couple", "wheelchair", "companion"];
+
+// Một ghế trong sơ đồ phòng chiếu, chưa gắn với suất chiếu nào
+const LayoutSeatSchema: Schema = new Schema({
+  row: { type: String, required: true },
+  seatNumber: { type: Number, required: true, min: 1 },
+  seatType: { type: String, enum: ["standard", "premium", "vip"], default: "standard" },
+  kind: { type: String, enum: SEAT_KINDS, default: "regular" },
+  x: { type: Number, min: 0 },
+  y: { type: Number, min: 0 },
+  groupId: { type: String },
+  isActive: { type: Boolean, default: true },
+}, { _id: false });
+
+// Thứ tự hàng: A..Z rồi mới tới AA, AB, ...
+export const compareRowLabels = (a: string, b: string): number => a.length - b.length || a.localeCompare(b);
+
+// Sơ đồ cũ không có tọa độ: mỗi hàng là một dòng của lưới, số ghế là cột
+export const fillGridPositions = (seats: ILayoutSeat[]): void => {
+  const rows = [...new Set(seats.map((seat) => seat.row))].sort(compareRowLabels);
+
+  seats.forEach((seat) => {
+    if (seat.y === undefined || seat.y === null) seat.y = rows.indexOf(seat.row);
+    if (seat.x === undefined || seat.x === null) seat.x = seat.seatNumber;
+  });
+};
+
+// Kiểm tra sơ đồ: ghế không trùng số hay vị trí, ghế đôi phải thuộc nhóm, ghế trong nhóm cùng hàng và cùng loại
+export const validateLayoutSeats = (seats: ILayoutSeat[]): string[] => {
+  const errors: string[] = [];
+  const keys = new Set<string>();
+  const positions = new Set<string>();
+  const groups = new Map<string, ILayoutSeat[]>();
+
+  for (const seat of seats) {
+    const label = `${seat.row}${seat.seatNumber}`;
+    const key = `${seat.row}-${seat.seatNumber}`;
+    if (keys.has(key)) {
+      errors.push(`Duplicate seat ${label} in layout`);
+    }
+    keys.add(key);
+
+    if (!seat.isActive) continue;
+
+    const position = `${seat.x}-${seat.y}`;
+    if (seat.x !== undefined && seat.y !== undefined && positions.has(position)) {
+      errors.push(`Seat ${label} overlaps another seat at (${seat.x}, ${seat.y})`);
+    }
+    positions.add(position);
+
+    if (seat.kind === "couple" && !seat.groupId) {
+      errors.push(`Couple seat ${label} must belong to a seat group`);
+    }
+
+    if (seat.groupId) {
+      groups.set(seat.groupId, [...(groups.get(seat.groupId) || []), seat]);
+    }
+  }
+
+  groups.forEach((members, groupId) => {
+    if (members.length < 2) {
+      errors.push(`Seat group ${groupId} must contain at least two seats`);
+    }
+    if (new Set(members.map((seat) => seat.row)).size > 1) {
+      errors.push(`Seats of group ${groupId} must be in the same row`);
+    }
+    if (new Set(members.map((seat) => seat.seatType)).size > 1) {
+      errors.push(`Seats of group ${groupId} must have the same seat type`);
+    }
+    if (new Set(members.map((seat) => seat.kind || "regular")).size > 1) {
+      errors.push(`Seats of group ${groupId} must be of the same kind`);
+    }
+  });
+
+  return errors;
+};
+
+// Một phiên bản sơ đồ ghế của phòng chiếu; ghế của từng suất chiếu (Seat) được sao chép từ đây khi tạo suất chiếu.
+// Sửa sơ đồ luôn tạo phiên bản mới, các phiên bản cũ được giữ nguyên cho các suất chiếu đang dùng
+const SeatLayoutSchema: Schema = new Schema({
+  screenId: { type: Schema.Types.ObjectId, ref: "Screen", required: true },
+  version: { type: Number, required: true, min: 1, default: 1 },
+  seats: [LayoutSeatSchema],
+}, { timestamps: true });
+
+// Mỗi phòng chiếu chỉ có một sơ đồ cho mỗi số phiên bản; phiên bản lớn nhất là sơ đồ hiện tại
+SeatLayoutSchema.index({ screenId: 1, version: -1 }, { unique: true });
+
+// Bổ sung tọa độ còn thiếu rồi kiểm tra sơ đồ trước khi lưu
+SeatLayoutSchema.pre<ISeatLayout>("validate", function (next) {
+  fillGridPositions(this.seats);
+
+  const errors = validateLayoutSeats(this.seats);
+  if (errors.length > 0) {
+    return next(new Error(errors.join("; ")));
+  }
+
+  next();
+});
+
+export const SeatLayout = mongoose.model<ISeatLayout>("SeatLayout", SeatLayoutSchema);
@@ -1,28 +1,63 @@
 import mongoose, { Schema, Document } from "mongoose";
 
+export interface IPriceAdjustment {
+  ruleId: mongoose.Types.ObjectId;
+  name: string;
+  seatType: string;
+  amount: number;
+}
+
 export interface IShowtime extends Document {
   movieId: mongoose.Types.ObjectId;
   screenId: mongoose.Types.ObjectId;
   startTime: Date;
   endTime: Date;
+  basePrice?: {
+    standard: number;
+    premium: number;
+    vip: number;
+  };
   price: {
     standard: number;
     premium: number;
     vip: number;
   };
+  pricingAdjustments: IPriceAdjustment[];
+  holdDurationMinutes?: number;
+  layoutVersion?: number;
   isActive: boolean;
 }
 
+const PriceAdjustmentSchema: Schema = new Schema({
+  ruleId: { type: Schema.Types.ObjectId, ref: "PricingRule", required: true },
+  name: { type: String, required: true },
+  seatType: { type: String, required: true },
+  amount: { type: Number, required: true },
+}, { _id: false });
+
 const ShowtimeSchema: Schema = new Schema({
   movieId: { type: Schema.Types.ObjectId, ref: "Movie", required: true },
   screenId: { type: Schema.Types.ObjectId, ref: "Screen", required: true },
   startTime: { type: Date, required: true },
   endTime: { type: Date, required: true },
+  // Giá nhập tay, trước khi áp dụng quy tắc giá
+  basePrice: {
+    standard: { type: Number, min: 0 },
+    premium: { type: Number, min: 0 },
+    vip: { type: Number, min: 0 },
+  },
+  // Giá sau các quy tắc giá của suất chiếu (ngày, giờ, loại phòng, ngày lễ)
   price: {
     standard: { type: Number, required: true, min: 0 },
     premium: { type: Number, required: true, min: 0 },
     vip: { type: Number, required: true, min: 0 },
   },
+  // Các quy tắc đã áp dụng khi tính price, để giải thích giá
+  pricingAdjustments: [PriceAdjustmentSchema],
+  // Ghi đè thời gian giữ ghế mặc định cho suất chiếu này
+  holdDurationMinutes: { type: Number, min: 1, max: 60 },
+  // Phiên bản sơ đồ ghế mà ghế của suất chiếu được sao chép từ đó
+  layoutVersion: { type: Number, min: 1 },
   isActive: { type: Boolean, default: true },
 }, { timestamps: true });
 
@@ -9,7 +9,7 @@ export interface IUser extends Document {
     phone: string;
     dateofbirth: Date;
     avatar: string;
-    role: "user" | "admin";
+    role: "user" | "staff" | "admin";
     resetPasswordToken?: string;
     resetPasswordExpires?: Date;
     createdAt: Date;
@@ -25,7 +25,8 @@ const UserSchema: Schema = new Schema({
     avatar: {
         type: String,
     },
-    role: { type: String, enum: ["user", "admin"], default: "user" },
+    // "staff" là nhân viên soát vé tại cửa rạp
+    role: { type: String, enum: ["user", "staff", "admin"], default: "user" },
     resetPasswordToken: { type: String, required: false },
     resetPasswordExpires: { type: Date, required: false },
     createdAt: { type: Date, default: Date.now },
@@ -2,18 +2,40 @@
 
 export interface Ticket {
   type: string; // Loại vé (chuỗi: "standard", "premium", "vip")
+  category: string; // Đối tượng khán giả (chuỗi: "adult", "child", "student", "senior")
   price: number; // Giá vé (số tiền)
   getDescription(): string; // Phương thức trả về mô tả của vé
   applyDiscount(percentage: number): void; // Phương thức áp dụng giảm giá theo phần trăm
 }
 
+// Đối tượng khán giả của vé, với mức điều chỉnh giá và điều kiện áp dụng riêng
+export interface AudienceCategory {
+  key: string; // Khóa dùng trong yêu cầu đặt chỗ
+  label: string; // Tên hiển thị
+  priceModifier: number; // Phần trăm điều chỉnh trên giá ghế (số âm là giảm giá)
+  requiresProof: boolean; // Phải xuất trình giấy tờ khi vào rạp
+  requiresCompanion?: boolean; // Phải đi cùng ít nhất một vé thuộc đối tượng khác
+  weekdaysOnly?: boolean; // Chỉ áp dụng cho suất chiếu từ thứ Hai đến thứ Sáu
+}
+
+export const AUDIENCE_CATEGORIES: Record<string, AudienceCategory> = {
+  adult: { key: 'adult', label: 'Người lớn', priceModifier: 0, requiresProof: false },
+  child: { key: 'child', label: 'Trẻ em (dưới 13 tuổi)', priceModifier: -30, requiresProof: false, requiresCompanion: true },
+  student: { key: 'student', label: 'Học sinh, sinh viên', priceModifier: -20, requiresProof: true, weekdaysOnly: true },
+  senior: { key: 'senior', label: 'Người cao tuổi (từ 60 tuổi)', priceModifier: -25, requiresProof: true },
+};
+
+export const DEFAULT_AUDIENCE_CATEGORY = 'adult';
+
 // Sản phẩm cụ thể: Vé Standard (Vé cơ bản)
 class StandardTicket implements Ticket {
   type: string = 'standard'; // Loại vé là "standard"
+  category: string; // Đối tượng khán giả
   price: number; // Giá vé
 
-  constructor(price: number) {
+  constructor(price: number, category: string = DEFAULT_AUDIENCE_CATEGORY) {
     this.price = price; // Khởi tạo giá vé từ tham số đầu vào
+    this.category = category; // Khởi tạo đối tượng khán giả
   }
 
   getDescription(): string {
@@ -29,10 +51,12 @@ class StandardTicket implements Ticket {
 // Sản phẩm cụ thể: Vé Premium (Vé cao cấp)
 class PremiumTicket implements Ticket {
   type: string = 'premium'; // Loại vé là "premium"
+  category: string; // Đối tượng khán giả
   price: number; // Giá vé
 
-  constructor(price: number) {
+  constructor(price: number, category: string = DEFAULT_AUDIENCE_CATEGORY) {
     this.price = price; // Khởi tạo giá vé từ tham số đầu vào
+    this.category = category; // Khởi tạo đối tượng khán giả
   }
 
   getDescription(): string {
@@ -48,10 +72,12 @@ class PremiumTicket implements Ticket {
 // Sản phẩm cụ thể: Vé VIP
 class VIPTicket implements Ticket {
   type: string = 'vip'; // Loại vé là "vip"
+  category: string; // Đối tượng khán giả
   price: number; // Giá vé
 
-  constructor(price: number) {
+  constructor(price: number, category: string = DEFAULT_AUDIENCE_CATEGORY) {
     this.price = price; // Khởi tạo giá vé từ tham số đầu vào
+    this.category = category; // Khởi tạo đối tượng khán giả
   }
 
   getDescription(): string {
@@ -67,17 +93,48 @@ class VIPTicket implements Ticket {
 
 // Lớp Factory (Nhà máy) để tạo vé
 export class TicketFactory {
-  // Phương thức tĩnh tạo vé dựa trên loại vé và giá
-  static createTicket(type: string, price: number): Ticket {
+  // Phương thức tĩnh tạo vé dựa trên loại vé, giá ghế và đối tượng khán giả
+  static createTicket(type: string, price: number, category: string = DEFAULT_AUDIENCE_CATEGORY): Ticket {
+    const audience = AUDIENCE_CATEGORIES[category.toLowerCase()]; // Tìm đối tượng khán giả
+    if (!audience) {
+      throw new Error(`Đối tượng vé ${category} không được hỗ trợ.`); // Ném lỗi nếu đối tượng không hợp lệ
+    }
+
+    const categoryPrice = Math.round(price * (100 + audience.priceModifier) / 100); // Giá sau điều chỉnh theo đối tượng
+
     switch (type.toLowerCase()) { // Chuyển loại vé về chữ thường để so sánh
       case 'standard':
-        return new StandardTicket(price); // Tạo vé Standard
+        return new StandardTicket(categoryPrice, audience.key); // Tạo vé Standard
       case 'premium':
-        return new PremiumTicket(price); // Tạo vé Premium
+        return new PremiumTicket(categoryPrice, audience.key); // Tạo vé Premium
       case 'vip':
-        return new VIPTicket(price); // Tạo vé VIP
+        return new VIPTicket(categoryPrice, audience.key); // Tạo vé VIP
       default:
         throw new Error(`Loại vé ${type} không được hỗ trợ.`); // Ném lỗi nếu loại vé không hợp lệ
     }
   }
-}
\ No newline at end of file
+
+  // Kiểm tra điều kiện của các đối tượng khán giả trong một đặt chỗ; trả về danh sách lỗi (rỗng nếu hợp lệ)
+  static checkAudienceEligibility(categories: string[], context: { isWeekday: boolean }): string[] {
+    const errors: string[] = [];
+    const keys = categories.map(category => category.toLowerCase());
+
+    for (const key of Array.from(new Set(keys))) {
+      const audience = AUDIENCE_CATEGORIES[key];
+      if (!audience) {
+        errors.push(`Unsupported ticket category: ${key}`);
+        continue;
+      }
+
+      if (audience.requiresCompanion && keys.every(other => other === key)) {
+        errors.push(`${audience.key} tickets must be booked together with at least one other ticket category`);
+      }
+
+      if (audience.weekdaysOnly && !context.isWeekday) {
+        errors.push(`${audience.key} tickets are only available for weekday showtimes`);
+      }
+    }
+
+    return errors;
+  }
+}
@@ -1,8 +1,8 @@
 // Triển khai Observer Pattern để quản lý thông báo
 
 // Các loại sự kiện thông báo
-export type NotificationEvent = 'booking.created' | 'booking.cancelled' | 'booking.confirmed' | 'payment.success' | 'payment.failed';
-// Định nghĩa các sự kiện có thể xảy ra: tạo đặt vé, hủy đặt vé, xác nhận đặt vé, thanh toán thành công, thanh toán thất bại
+export type NotificationEvent = 'booking.created' | 'booking.cancelled' | 'booking.seat_cancelled' | 'booking.exchanged' | 'booking.confirmed' | 'booking.expired' | 'booking.reminder' | 'payment.success' | 'payment.failed';
+// Định nghĩa các sự kiện có thể xảy ra: tạo đặt vé, hủy đặt vé, hủy một ghế trong đặt vé, đổi ghế hoặc suất chiếu, xác nhận đặt vé, đặt vé hết hạn giữ ghế, nhắc suất chiếu sắp bắt đầu, thanh toán thành công, thanh toán thất bại
 
 // Dữ liệu thông báo
 export interface NotificationData {
@@ -15,6 +15,7 @@ export interface NotificationData {
   showtime?: Date; // Thời gian chiếu (không bắt buộc)
   seats?: string[]; // Danh sách ghế ngồi (không bắt buộc)
   amount?: number; // Số tiền (không bắt buộc)
+  tickets?: { seat: string; token: string; qrCode: string }[]; // Vé điện tử kèm mã QR (không bắt buộc)
   [key: string]: any; // Cho phép thêm các thuộc tính tùy ý khác
 }
 
@@ -44,11 +45,33 @@ export class EmailNotification implements NotificationObserver {
       case 'booking.confirmed':
         subject = 'Đặt vé của bạn đã được xác nhận';
         message = `Kính gửi khách hàng, đặt vé của bạn cho ${data.movieTitle} tại ${data.theaterName} vào ${data.showtime} đã được xác nhận.`;
+        if (data.tickets?.length) { // Vé điện tử kèm mã QR
+          message += ` Vé điện tử (${data.tickets.length} vé) được đính kèm, vui lòng xuất trình mã QR tại cửa rạp.`;
+        }
         break;
       case 'booking.cancelled':
         subject = 'Đặt vé của bạn đã bị hủy';
         message = `Kính gửi khách hàng, đặt vé của bạn cho ${data.movieTitle} tại ${data.theaterName} vào ${data.showtime} đã bị hủy.`;
         break;
+      case 'booking.seat_cancelled':
+        subject = 'Một ghế trong đặt vé của bạn đã được hủy';
+        message = `Kính gửi khách hàng, ghế ${data.seatLabel} trong đặt vé ${data.bookingId} cho ${data.movieTitle} đã được hủy. Số tiền hoàn lại: ${data.refundAmount || 0}. Tổng tiền mới: ${data.amount}.`;
+        break;
+      case 'booking.exchanged':
+        subject = 'Đặt vé của bạn đã được đổi';
+        message = `Kính gửi khách hàng, đặt vé ${data.bookingId} cho ${data.movieTitle} đã được đổi sang suất chiếu ${data.showtime}, ghế ${data.seatLabels}. Chênh lệch giá: ${data.priceDifference}. Tổng tiền mới: ${data.amount}.`;
+        if (data.tickets?.length) { // Vé cũ không còn hiệu lực
+          message += ` Vé điện tử mới được đính kèm, vé cũ không còn hiệu lực.`;
+        }
+        break;
+      case 'booking.expired':
+        subject = 'Đặt vé của bạn đã hết hạn';
+        message = `Kính gửi khách hàng, đặt vé ${data.bookingId} cho ${data.movieTitle} đã hết thời gian giữ ghế và các ghế đã được mở lại.`;
+        break;
+      case 'booking.reminder':
+        subject = 'Suất chiếu của bạn sắp bắt đầu';
+        message = `Kính gửi khách hàng, suất chiếu ${data.movieTitle} tại ${data.theaterName} sẽ bắt đầu vào ${data.showtime}.`;
+        break;
       case 'payment.success':
         subject = 'Thanh toán thành công';
         message = `Kính gửi khách hàng, thanh toán ${data.amount} cho đặt vé ${data.bookingId} đã thành công.`;
@@ -90,6 +113,18 @@ export class SMSNotification implements NotificationObserver {
       case 'booking.cancelled':
         message = `Đặt vé của bạn cho ${data.movieTitle} vào ${data.showtime} đã bị hủy.`;
         break;
+      case 'booking.seat_cancelled':
+        message = `Ghế ${data.seatLabel} trong đặt vé ${data.bookingId} đã được hủy, hoàn lại ${data.refundAmount || 0}.`;
+        break;
+      case 'booking.exchanged':
+        message = `Đặt vé ${data.bookingId} đã được đổi sang suất chiếu ${data.showtime}, ghế ${data.seatLabels}.`;
+        break;
+      case 'booking.expired':
+        message = `Đặt vé ${data.bookingId} cho ${data.movieTitle} đã hết thời gian giữ ghế.`;
+        break;
+      case 'booking.reminder':
+        message = `Suất chiếu ${data.movieTitle} tại ${data.theaterName} sẽ bắt đầu vào ${data.showtime}.`;
+        break;
       case 'payment.success':
         message = `Thanh toán ${data.amount} cho đặt vé ${data.bookingId} đã thành công.`;
         break;
@@ -132,6 +167,22 @@ export class PushNotification implements NotificationObserver {
         title = 'Đặt vé đã bị hủy';
         message = `Đặt vé của bạn cho ${data.movieTitle} đã bị hủy.`;
         break;
+      case 'booking.seat_cancelled':
+        title = 'Đã hủy một ghế';
+        message = `Ghế ${data.seatLabel} cho ${data.movieTitle} đã được hủy.`;
+        break;
+      case 'booking.exchanged':
+        title = 'Đặt vé đã được đổi';
+        message = `Đặt vé của bạn cho ${data.movieTitle} đã được đổi sang ghế ${data.seatLabels}.`;
+        break;
+      case 'booking.expired':
+        title = 'Đặt vé đã hết hạn';
+        message = `Đặt vé của bạn cho ${data.movieTitle} đã hết thời gian giữ ghế.`;
+        break;
+      case 'booking.reminder':
+        title = 'Suất chiếu sắp bắt đầu';
+        message = `${data.movieTitle} sẽ bắt đầu vào ${data.showtime}.`;
+        break;
       case 'payment.success':
         title = 'Thanh toán thành công';
         message = `Thanh toán ${data.amount} của bạn đã thành công.`;
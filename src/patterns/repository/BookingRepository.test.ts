@@ -0,0 +1,151 @@
+import { describe, test, mock, afterEach } from "node:test";
+import assert from "node:assert/strict";
+import mongoose, { ClientSession } from "mongoose";
+import { BookingRepository } from "./BookingRepository";
+import { Seat } from "../../models/seat.model";
+import { SeatConflictError } from "../../utils/errors";
+
+type FakeSeat = Record<string, any>;
+
+const MINUTE = 60 * 1000;
+const session = {} as ClientSession;
+const showtimeId = new mongoose.Types.ObjectId();
+
+// Đánh giá filter compare-and-set của holdSeats trên một ghế trong bộ nhớ
+const matchesCondition = (value: any, condition: any): boolean => {
+  if (condition && typeof condition === "object" && "$exists" in condition) {
+    return (value !== undefined) === condition.$exists;
+  }
+  if (condition && typeof condition === "object" && "$gt" in condition) {
+    return value !== undefined && value > condition.$gt;
+  }
+  return String(value) === String(condition);
+};
+
+const matchesFilter = (seat: FakeSeat, filter: Record<string, any>): boolean =>
+  String(seat._id) === String(filter._id)
+  && String(seat.showtimeId) === String(filter.showtimeId)
+  && filter.$or.some((branch: Record<string, any>) =>
+    Object.entries(branch).every(([key, condition]) => matchesCondition(seat[key], condition))
+  );
+
+// Thay Seat.updateOne bằng một kho ghế trong bộ nhớ; mỗi lệnh nhường lượt như một lần gọi tới MongoDB
+const useSeatStore = (seats: FakeSeat[]) => {
+  mock.method(Seat, "updateOne", (async (filter: Record<string, any>, update: Record<string, any>) => {
+    await new Promise(resolve => setImmediate(resolve));
+    const seat = seats.find(candidate => matchesFilter(candidate, filter));
+    if (!seat) {
+      return { modifiedCount: 0 };
+    }
+
+    const { $unset, ...values } = update;
+    Object.assign(seat, values);
+    Object.keys($unset || {}).forEach(key => delete seat[key]);
+    return { modifiedCount: 1 };
+  }) as any);
+};
+
+const availableSeat = (): FakeSeat => ({ _id: new mongoose.Types.ObjectId(), showtimeId, status: "available" });
+
+const hold = (repository: BookingRepository, userId: mongoose.Types.ObjectId, seats: FakeSeat[]) =>
+  repository["holdSeats"](
+    new mongoose.Types.ObjectId(),
+    userId,
+    showtimeId,
+    seats.map(seat => seat._id),
+    new Date(Date.now() + 10 * MINUTE),
+    session
+  );
+
+describe("BookingRepository.holdSeats", () => {
+  afterEach(() => mock.restoreAll());
+
+  test("holds every available seat for the booking", async () => {
+    const seats = [availableSeat(), availableSeat()];
+    useSeatStore(seats);
+    const userId = new mongoose.Types.ObjectId();
+
+    await hold(new BookingRepository(), userId, seats);
+
+    for (const seat of seats) {
+      assert.equal(seat.status, "reserved");
+      assert.equal(String(seat.heldBy), String(userId));
+      assert.ok(seat.bookingId);
+    }
+  });
+
+  test("lets only one of two concurrent bookings take a contested seat", async () => {
+    const shared = availableSeat();
+    const seats = [shared, availableSeat(), availableSeat()];
+    useSeatStore(seats);
+    const repository = new BookingRepository();
+
+    const results = await Promise.allSettled([
+      hold(repository, new mongoose.Types.ObjectId(), [seats[1], shared]),
+      hold(repository, new mongoose.Types.ObjectId(), [seats[2], shared]),
+    ]);
+
+    const rejected = results.filter((result): result is PromiseRejectedResult => result.status === "rejected");
+    assert.equal(results.filter(result => result.status === "fulfilled").length, 1);
+    assert.equal(rejected.length, 1);
+    assert.ok(rejected[0].reason instanceof SeatConflictError);
+    assert.deepEqual(rejected[0].reason.seatIds, [String(shared._id)]);
+  });
+
+  test("reports every seat that was taken, not only the first", async () => {
+    const otherUser = new mongoose.Types.ObjectId();
+    const taken = (): FakeSeat => ({ ...availableSeat(), status: "reserved", heldBy: otherUser, bookingId: new mongoose.Types.ObjectId() });
+    const seats = [taken(), availableSeat(), taken()];
+    useSeatStore(seats);
+
+    await assert.rejects(
+      hold(new BookingRepository(), new mongoose.Types.ObjectId(), seats),
+      (error: SeatConflictError) => {
+        assert.deepEqual(error.seatIds, [String(seats[0]._id), String(seats[2]._id)]);
+        return true;
+      }
+    );
+  });
+
+  test("turns the user's own unexpired seat hold into a booking hold", async () => {
+    const userId = new mongoose.Types.ObjectId();
+    const seat: FakeSeat = { ...availableSeat(), status: "reserved", heldBy: userId, holdToken: "token", expiresAt: new Date(Date.now() + MINUTE) };
+    useSeatStore([seat]);
+
+    await hold(new BookingRepository(), userId, [seat]);
+
+    assert.ok(seat.bookingId);
+    assert.equal(seat.holdToken, undefined);
+  });
+
+  test("refuses an expired own hold and a hold of another user", async () => {
+    const userId = new mongoose.Types.ObjectId();
+    const expired: FakeSeat = { ...availableSeat(), status: "reserved", heldBy: userId, expiresAt: new Date(Date.now() - MINUTE) };
+    const foreign: FakeSeat = { ...availableSeat(), status: "reserved", heldBy: new mongoose.Types.ObjectId(), expiresAt: new Date(Date.now() + MINUTE) };
+    useSeatStore([expired, foreign]);
+
+    await assert.rejects(
+      hold(new BookingRepository(), userId, [expired, foreign]),
+      (error: SeatConflictError) => {
+        assert.deepEqual(error.seatIds, [String(expired._id), String(foreign._id)]);
+        return true;
+      }
+    );
+  });
+
+  test("treats a write conflict with another transaction as a lost seat", async () => {
+    const seat = availableSeat();
+    mock.method(Seat, "updateOne", (async () => {
+      throw Object.assign(new Error("WriteConflict"), { code: 112 });
+    }) as any);
+
+    await assert.rejects(
+      hold(new BookingRepository(), new mongoose.Types.ObjectId(), [seat]),
+      (error: SeatConflictError) => {
+        assert.ok(error instanceof SeatConflictError);
+        assert.deepEqual(error.seatIds, [String(seat._id)]);
+        return true;
+      }
+    );
+  });
+});
@@ -1,18 +1,44 @@
 // Triển khai Repository Pattern để truy cập dữ liệu
-import mongoose from 'mongoose';
-import { Booking, IBooking } from '../../models/booking.model'; // Nhập mô hình Booking và interface IBooking
+import mongoose, { ClientSession } from 'mongoose';
+import { Booking, IBooking, IRefund, IBookingExchange, IBookingCharge, IInvoiceSnapshot } from '../../models/booking.model'; // Nhập mô hình Booking và interface IBooking
 import { Seat, ISeat } from '../../models/seat.model'; // Nhập mô hình Seat và interface ISeat thay thế SeatReservation
+import { Promotion } from '../../models/promotion.model'; // Nhập mô hình Promotion để trả lại lượt dùng mã
+import { nextSequence } from '../../models/counter.model'; // Bộ đếm số hóa đơn
+import { SeatConflictError } from '../../utils/errors';
+import { toIdString } from '../../utils/mongo';
+import { computeHoldExpiry } from '../../config/holdPolicy';
+import { PAYMENT_LOCK_TIMEOUT_MINUTES } from '../../config/payment';
+
+const WRITE_CONFLICT_CODE = 112; // Mã lỗi MongoDB khi hai transaction cùng ghi một document
+
+// Dữ liệu mới của đặt chỗ sau khi đổi ghế hoặc suất chiếu
+export type BookingExchangeChanges = Pick<IBooking, 'showtimeId' | 'seats' | 'lineItems' | 'subtotalAmount' | 'feeAmount' | 'totalAmount' | 'discount'>;
 
 // Giao diện Repository
 export interface IBookingRepository {
   findById(id: string): Promise<IBooking | null>; // Tìm đặt chỗ theo ID
   findByUserId(userId: string): Promise<IBooking[]>; // Tìm danh sách đặt chỗ theo ID người dùng
-  create(bookingData: Partial<IBooking>): Promise<IBooking>; // Tạo một đặt chỗ mới
+  create(bookingData: Partial<IBooking>, session?: ClientSession): Promise<IBooking>; // Tạo một đặt chỗ mới và giữ ghế
   update(id: string, bookingData: Partial<IBooking>): Promise<IBooking | null>; // Cập nhật thông tin đặt chỗ
   delete(id: string): Promise<boolean>; // Xóa một đặt chỗ
   getActiveBookingsBySeatId(seatId: string, showtimeId: string): Promise<IBooking[]>; // Lấy danh sách đặt chỗ đang hoạt động theo ID ghế và suất chiếu
   confirmBooking(id: string): Promise<IBooking | null>; // Xác nhận một đặt chỗ
   cancelBooking(id: string): Promise<IBooking | null>; // Hủy một đặt chỗ
+  removeSeat(id: string, seatId: string, amount: number): Promise<IBooking | null>; // Hủy một ghế trong đặt chỗ
+  exchangeSeats(booking: IBooking, changes: BookingExchangeChanges, exchange: IBookingExchange, charge?: IBookingCharge): Promise<IBooking | null>; // Đổi ghế hoặc suất chiếu
+  lockForPayment(id: string, now: Date): Promise<IBooking | null>; // Khóa đặt chỗ để thanh toán
+  releasePaymentLock(id: string, paymentStatus: IBooking['paymentStatus']): Promise<IBooking | null>; // Mở khóa thanh toán
+  completePayment(id: string, paymentMethod: string, transactionId: string | undefined, amount: number): Promise<IBooking | null>; // Hoàn tất thanh toán và đặt ghế
+  extendHold(booking: IBooking, expiresAt: Date): Promise<IBooking | null>; // Gia hạn thời gian giữ ghế
+  findExpiredReservations(now: Date, limit: number): Promise<IBooking[]>; // Tìm các đặt chỗ đã hết hạn giữ ghế
+  findExpiringReservations(now: Date, until: Date): Promise<IBooking[]>; // Tìm các đặt chỗ sắp hết hạn giữ ghế
+  markExpiryWarningSent(id: string, minutesLeft: number, thresholds: number[]): Promise<boolean>; // Đánh dấu đã gửi cảnh báo sắp hết hạn
+  expireBooking(id: string, now: Date): Promise<IBooking | null>; // Hủy một đặt chỗ đã hết hạn giữ ghế
+  findUnremindedByShowtimes(showtimeIds: string[]): Promise<IBooking[]>; // Tìm các đặt chỗ đã xác nhận chưa được nhắc
+  markReminderSent(id: string): Promise<boolean>; // Đánh dấu đã gửi nhắc nhở
+  releaseReminderClaim(id: string): Promise<void>; // Bỏ đánh dấu khi gửi nhắc nhở thất bại
+  recordRefund(id: string, refund: IRefund | IRefund[], paymentStatus?: IBooking['paymentStatus']): Promise<IBooking | null>; // Lưu một hoặc nhiều lần hoàn tiền
+  assignInvoice(id: string, prefix: string, vatRate: number, issuedAt: Date, snapshot: IInvoiceSnapshot): Promise<IBooking | null>; // Cấp số hóa đơn
 }
 
 // Triển khai cụ thể lớp Repository
@@ -25,7 +51,13 @@ export class BookingRepository implements IBookingRepository {
 
     return await Booking.findById(id) // Truy vấn đặt chỗ theo ID
       .populate('userId', 'username email phone') // Nạp thông tin người dùng (username, email, phone)
-      .populate('showtimeId') // Nạp thông tin suất chiếu
+      .populate({ // Nạp thông tin suất chiếu cùng phim, phòng chiếu và rạp
+        path: 'showtimeId',
+        populate: [
+          { path: 'movieId', select: 'title duration' },
+          { path: 'screenId', select: 'name screenType theaterId', populate: { path: 'theaterId', select: 'name location' } }
+        ]
+      })
       .populate('seats'); // Nạp thông tin ghế
   }
 
@@ -41,43 +73,91 @@ export class BookingRepository implements IBookingRepository {
       .sort({ bookedAt: -1 }); // Sắp xếp theo thời gian đặt giảm dần
   }
 
-  // Tạo một đặt chỗ mới
-  async create(bookingData: Partial<IBooking>): Promise<IBooking> {
-    const session = await mongoose.startSession(); // Bắt đầu một session để quản lý transaction
-    session.startTransaction(); // Bắt đầu transaction
+  // Tạo một đặt chỗ mới và giữ ghế; nếu truyền session thì chạy trong transaction của bên gọi
+  async create(bookingData: Partial<IBooking>, session?: ClientSession): Promise<IBooking> {
+    if (session) { // Bên gọi đã mở transaction
+      return await this.createWithSession(bookingData, session);
+    }
+
+    const ownSession = await mongoose.startSession(); // Bắt đầu một session để quản lý transaction
+    ownSession.startTransaction(); // Bắt đầu transaction
 
     try {
-      // Tạo bản ghi đặt chỗ
-      const newBooking = new Booking(bookingData); // Khởi tạo đặt chỗ mới
-      await newBooking.save({ session }); // Lưu vào cơ sở dữ liệu với session
+      const newBooking = await this.createWithSession(bookingData, ownSession);
+      await ownSession.commitTransaction(); // Xác nhận transaction
+      return newBooking; // Trả về đặt chỗ mới
+    } catch (error) {
+      await ownSession.abortTransaction(); // Hủy transaction nếu có lỗi
+      throw error; // Ném lỗi
+    } finally {
+      ownSession.endSession(); // Kết thúc session
+    }
+  }
+
+  private async createWithSession(bookingData: Partial<IBooking>, session: ClientSession): Promise<IBooking> {
+    // Tạo bản ghi đặt chỗ
+    const newBooking = new Booking(bookingData); // Khởi tạo đặt chỗ mới
+    await newBooking.save({ session }); // Lưu vào cơ sở dữ liệu với session
+
+    await this.holdSeats(
+      newBooking._id as mongoose.Types.ObjectId,
+      newBooking.userId,
+      newBooking.showtimeId,
+      newBooking.seats,
+      newBooking.expiresAt || computeHoldExpiry(), // Thời gian hết hạn theo chính sách giữ ghế
+      session
+    );
 
-      // Cập nhật trạng thái đặt ghế
-      const seatUpdates = bookingData.seats?.map(seatId => // Duyệt qua danh sách ghế
-        Seat.updateOne(
+    return newBooking;
+  }
+
+  // Giữ tất cả ghế hoặc không giữ ghế nào: mỗi ghế chỉ chuyển sang "reserved" nếu vẫn còn "available"
+  // (hoặc đang được chính người đặt giữ riêng lẻ qua /api/seats/reserve)
+  private async holdSeats(
+    bookingId: mongoose.Types.ObjectId,
+    userId: mongoose.Types.ObjectId,
+    showtimeId: mongoose.Types.ObjectId,
+    seatIds: mongoose.Types.ObjectId[],
+    expiresAt: Date,
+    session: ClientSession
+  ): Promise<void> {
+    const contestedSeatIds: string[] = []; // Các ghế đã bị người khác giữ
+
+    for (const seatId of seatIds) {
+      try {
+        const result = await Seat.updateOne(
           {
             _id: seatId, // Tìm ghế theo ID
-            showtimeId: bookingData.showtimeId // Tìm ghế theo suất chiếu
+            showtimeId, // Tìm ghế theo suất chiếu
+            $or: [ // Chỉ cập nhật khi ghế vẫn còn trống (compare-and-set)
+              { status: 'available' },
+              { status: 'reserved', heldBy: userId, bookingId: { $exists: false }, expiresAt: { $gt: new Date() } } // Chuyển lượt giữ ghế còn hạn của chính người dùng thành đặt chỗ
+            ]
           },
           {
             status: 'reserved', // Cập nhật trạng thái thành "reserved"
-            bookingId: newBooking._id, // Liên kết với đặt chỗ mới
-            expiresAt: new Date(Date.now() + 15 * 60 * 1000) // Đặt thời gian hết hạn 15 phút
+            bookingId, // Liên kết với đặt chỗ mới
+            heldBy: userId, // Người giữ ghế
+            expiresAt, // Thời gian hết hạn giữ ghế
+            $unset: { holdToken: 1, holdExtensions: 1 } // Lượt giữ ghế giờ thuộc về đặt chỗ
           },
           { session } // Dùng session
-        )
-      );
-
-      if (seatUpdates) { // Nếu có cập nhật ghế
-        await Promise.all(seatUpdates); // Chờ tất cả cập nhật hoàn tất
+        );
+
+        if (result.modifiedCount === 0) { // Ghế không còn trống
+          contestedSeatIds.push(seatId.toString());
+        }
+      } catch (error: any) {
+        if (error?.code === WRITE_CONFLICT_CODE) { // Một transaction khác đang giữ ghế này
+          contestedSeatIds.push(seatId.toString());
+          throw new SeatConflictError(contestedSeatIds);
+        }
+        throw error;
       }
+    }
 
-      await session.commitTransaction(); // Xác nhận transaction
-      return newBooking; // Trả về đặt chỗ mới
-    } catch (error) {
-      await session.abortTransaction(); // Hủy transaction nếu có lỗi
-      throw error; // Ném lỗi
-    } finally {
-      session.endSession(); // Kết thúc session
+    if (contestedSeatIds.length > 0) { // Mất bất kỳ ghế nào thì toàn bộ lượt giữ ghế bị hủy
+      throw new SeatConflictError(contestedSeatIds);
     }
   }
 
@@ -113,7 +193,7 @@ export class BookingRepository implements IBookingRepository {
         { bookingId: booking._id }, // Tìm các ghế liên quan đến đặt chỗ
         {
           status: 'available', // Cập nhật trạng thái ghế thành "available"
-          $unset: { bookingId: 1, expiresAt: 1 } // Xóa liên kết bookingId và expiresAt
+          $unset: { bookingId: 1, expiresAt: 1, heldBy: 1, holdToken: 1, holdExtensions: 1, checkedInAt: 1, checkedInBy: 1 } // Xóa liên kết bookingId, expiresAt và người giữ ghế
         },
         { session } // Dùng session
       );
@@ -204,13 +284,13 @@ export class BookingRepository implements IBookingRepository {
     session.startTransaction(); // Bắt đầu transaction
 
     try {
-      const booking = await Booking.findByIdAndUpdate(
-        id, // Tìm đặt chỗ theo ID
-        { bookingStatus: 'cancelled' }, // Cập nhật trạng thái thành "cancelled"
+      const booking = await Booking.findOneAndUpdate(
+        { _id: id, bookingStatus: { $ne: 'cancelled' } }, // Tìm đặt chỗ chưa bị hủy theo ID
+        { bookingStatus: 'cancelled', cancelledAt: new Date() }, // Cập nhật trạng thái thành "cancelled"
         { new: true, session } // Trả về bản ghi mới, dùng session
       );
 
-      if (!booking) { // Nếu không tìm thấy đặt chỗ
+      if (!booking) { // Nếu không tìm thấy đặt chỗ hoặc đã bị hủy
         await session.abortTransaction(); // Hủy transaction
         return null; // Trả về null
       }
@@ -219,11 +299,13 @@ export class BookingRepository implements IBookingRepository {
         { bookingId: booking._id }, // Tìm các ghế liên quan
         {
           status: 'available', // Cập nhật trạng thái thành "available"
-          $unset: { bookingId: 1, expiresAt: 1 } // Xóa liên kết bookingId và expiresAt
+          $unset: { bookingId: 1, expiresAt: 1, heldBy: 1, holdToken: 1, holdExtensions: 1, checkedInAt: 1, checkedInBy: 1 } // Xóa liên kết bookingId, expiresAt và người giữ ghế
         },
         { session } // Dùng session
       );
 
+      await this.releasePromotion(booking, session); // Trả lại lượt dùng mã khuyến mãi
+
       await session.commitTransaction(); // Xác nhận transaction
       return booking; // Trả về đặt chỗ đã hủy
     } catch (error) {
@@ -233,4 +315,474 @@ export class BookingRepository implements IBookingRepository {
       session.endSession(); // Kết thúc session
     }
   }
-}
\ No newline at end of file
+
+  // Hủy một ghế trong đặt chỗ; đặt chỗ phải còn ít nhất một ghế khác. amount chỉ dùng cho đặt chỗ cũ không có giá từng ghế
+  async removeSeat(id: string, seatId: string, amount: number): Promise<IBooking | null> {
+    if (!mongoose.Types.ObjectId.isValid(id) || !mongoose.Types.ObjectId.isValid(seatId)) { // Kiểm tra tính hợp lệ của ID
+      throw new Error('Invalid booking or seat ID'); // Ném lỗi nếu không hợp lệ
+    }
+
+    const seatObjectId = new mongoose.Types.ObjectId(seatId);
+    // Tổng số tiền của một thành phần trên các ghế còn lại
+    const sumItems = (expression: unknown) => ({ $sum: { $map: { input: '$lineItems', as: 'item', in: expression } } });
+    const sumDiscounts = (source: string) => ({
+      $sum: {
+        $map: {
+          input: { $filter: { input: '$$item.discounts', as: 'discount', cond: { $eq: ['$$discount.source', source] } } },
+          as: 'discount',
+          in: '$$discount.amount'
+        }
+      }
+    });
+    const hasLineItems = { $gt: [{ $size: '$lineItems' }, 0] }; // Đặt chỗ cũ không có giá từng ghế
+
+    const session = await mongoose.startSession(); // Bắt đầu session
+    session.startTransaction(); // Bắt đầu transaction
+
+    try {
+      const booking = await Booking.findOneAndUpdate(
+        {
+          _id: id, // Tìm đặt chỗ theo ID
+          bookingStatus: { $ne: 'cancelled' }, // Chưa bị hủy
+          seats: seatId, // Ghế vẫn thuộc đặt chỗ (yêu cầu hủy đồng thời chỉ một lần thành công)
+          'seats.1': { $exists: true } // Còn ít nhất hai ghế
+        },
+        [
+          {
+            $set: {
+              seats: { $filter: { input: '$seats', cond: { $ne: ['$$this', seatObjectId] } } }, // Bỏ ghế
+              lineItems: { $filter: { input: { $ifNull: ['$lineItems', []] }, cond: { $ne: ['$$this.seat', seatObjectId] } } } // Bỏ giá của ghế
+            }
+          },
+          {
+            // Tính lại tạm tính, giảm giá, phí và tổng tiền từ giá các ghế còn lại để chúng luôn khớp nhau
+            $set: {
+              subtotalAmount: {
+                $cond: [
+                  hasLineItems,
+                  sumItems({ $subtract: ['$$item.seatPrice', sumDiscounts('category')] }),
+                  { $subtract: [{ $ifNull: ['$subtotalAmount', '$totalAmount'] }, amount] }
+                ]
+              },
+              feeAmount: { $cond: [hasLineItems, sumItems({ $sum: '$$item.fees.amount' }), { $ifNull: ['$feeAmount', 0] }] },
+              discount: {
+                $cond: [
+                  { $and: [{ $ifNull: ['$discount', false] }, hasLineItems] },
+                  { $mergeObjects: ['$discount', { amount: sumItems(sumDiscounts('promotion')) }] },
+                  '$discount'
+                ]
+              },
+              totalAmount: { $cond: [hasLineItems, sumItems('$$item.finalPrice'), { $subtract: ['$totalAmount', amount] }] }
+            }
+          }
+        ],
+        { new: true, session } // Trả về bản ghi mới, dùng session
+      );
+
+      if (!booking) { // Ghế đã được hủy hoặc đặt chỗ không còn hợp lệ
+        await session.abortTransaction(); // Hủy transaction
+        return null; // Trả về null
+      }
+
+      await Seat.updateOne(
+        { _id: seatId, bookingId: booking._id }, // Ghế của đặt chỗ này
+        {
+          status: 'available', // Cập nhật trạng thái thành "available"
+          $unset: { bookingId: 1, expiresAt: 1, heldBy: 1, holdToken: 1, holdExtensions: 1, checkedInAt: 1, checkedInBy: 1 } // Xóa liên kết đặt chỗ và người giữ ghế
+        },
+        { session } // Dùng session
+      );
+
+      await session.commitTransaction(); // Xác nhận transaction
+      return booking; // Trả về đặt chỗ đã cập nhật
+    } catch (error) {
+      await session.abortTransaction(); // Hủy transaction nếu có lỗi
+      throw error; // Ném lỗi
+    } finally {
+      session.endSession(); // Kết thúc session
+    }
+  }
+
+  // Đổi ghế (có thể sang suất chiếu khác) của một đặt chỗ đã thanh toán: giữ ghế mới và trả ghế cũ trong cùng một transaction;
+  // trả về null nếu đặt chỗ đã bị thay đổi kể từ lúc đọc, ném SeatConflictError nếu ghế mới không còn trống
+  async exchangeSeats(booking: IBooking, changes: BookingExchangeChanges, exchange: IBookingExchange, charge?: IBookingCharge): Promise<IBooking | null> {
+    const previousSeatIds = booking.seats.map(seat => toIdString(seat)); // Ghế hiện tại (có thể đã được populate)
+    const nextSeatIds = changes.seats.map(seat => seat.toString()); // Ghế mới
+    const sameShowtime = toIdString(booking.showtimeId) === changes.showtimeId.toString(); // Có đổi suất chiếu không
+    const addedSeatIds = nextSeatIds.filter(seatId => !sameShowtime || !previousSeatIds.includes(seatId)); // Ghế cần giữ thêm
+    const releasedSeatIds = previousSeatIds.filter(seatId => !sameShowtime || !nextSeatIds.includes(seatId)); // Ghế cần trả lại
+
+    const { discount, ...values } = changes;
+    const update: Record<string, any> = {
+      $set: discount ? { ...values, discount } : values, // Dữ liệu mới của đặt chỗ
+      $push: charge ? { exchanges: exchange, charges: charge } : { exchanges: exchange } // Lưu lịch sử đổi và khoản trả thêm
+    };
+    const unset: Record<string, 1> = {};
+    if (!discount) unset.discount = 1; // Mã khuyến mãi không còn áp dụng cho ghế mới
+    if (!sameShowtime) unset.reminderSentAt = 1; // Nhắc lại cho suất chiếu mới
+    if (Object.keys(unset).length > 0) update.$unset = unset;
+
+    const session = await mongoose.startSession(); // Bắt đầu session
+    session.startTransaction(); // Bắt đầu transaction
+
+    try {
+      const exchanged = await Booking.findOneAndUpdate(
+        {
+          _id: booking._id, // Tìm đặt chỗ theo ID
+          bookingStatus: 'confirmed', // Đã xác nhận
+          paymentStatus: { $in: ['completed', 'refund_failed'] }, // Đã thanh toán (kể cả khi một lần hoàn tiền một phần bị lỗi)
+          showtimeId: toIdString(booking.showtimeId), // Suất chiếu chưa bị thay đổi
+          seats: previousSeatIds.map(seatId => new mongoose.Types.ObjectId(seatId)) // Danh sách ghế chưa bị thay đổi
+        },
+        update,
+        { new: true, session } // Trả về bản ghi mới, dùng session
+      );
+
+      if (!exchanged) { // Đặt chỗ đã bị hủy hoặc thay đổi bởi một yêu cầu khác
+        await session.abortTransaction(); // Hủy transaction
+        return null; // Trả về null
+      }
+
+      // Giữ ghế mới theo cùng quy tắc compare-and-set khi tạo đặt chỗ, rồi chuyển ngay sang "booked"
+      await this.holdSeats(
+        exchanged._id as mongoose.Types.ObjectId,
+        exchanged.userId,
+        exchanged.showtimeId,
+        addedSeatIds.map(seatId => new mongoose.Types.ObjectId(seatId)),
+        new Date(),
+        session
+      );
+      await Seat.updateMany(
+        { _id: { $in: addedSeatIds }, bookingId: exchanged._id }, // Các ghế vừa giữ
+        {
+          status: 'booked', // Cập nhật trạng thái thành "booked"
+          $unset: { expiresAt: 1 } // Xóa thời gian hết hạn
+        },
+        { session } // Dùng session
+      );
+
+      await Seat.updateMany(
+        { _id: { $in: releasedSeatIds }, bookingId: exchanged._id }, // Các ghế cũ không còn dùng
+        {
+          status: 'available', // Cập nhật trạng thái thành "available"
+          $unset: { bookingId: 1, expiresAt: 1, heldBy: 1, holdToken: 1, holdExtensions: 1, checkedInAt: 1, checkedInBy: 1 } // Xóa liên kết đặt chỗ và người giữ ghế
+        },
+        { session } // Dùng session
+      );
+
+      if (booking.discount && !discount) { // Mã khuyến mãi bị bỏ khi đổi
+        await this.releasePromotion(booking, session); // Trả lại lượt dùng mã khuyến mãi
+      }
+
+      await session.commitTransaction(); // Xác nhận transaction
+      return exchanged; // Trả về đặt chỗ đã đổi
+    } catch (error) {
+      await session.abortTransaction(); // Hủy transaction nếu có lỗi
+      throw error; // Ném lỗi
+    } finally {
+      session.endSession(); // Kết thúc session
+    }
+  }
+
+  // Gia hạn thời gian giữ ghế; chỉ thành công nếu đặt chỗ chưa bị thay đổi kể từ lúc đọc
+  async extendHold(booking: IBooking, expiresAt: Date): Promise<IBooking | null> {
+    const session = await mongoose.startSession(); // Bắt đầu session
+    session.startTransaction(); // Bắt đầu transaction
+
+    try {
+      const extended = await Booking.findOneAndUpdate(
+        {
+          _id: booking._id, // Tìm đặt chỗ theo ID
+          bookingStatus: 'reserved', // Chỉ gia hạn đặt chỗ đang giữ ghế
+          expiresAt: booking.expiresAt, // Hạn giữ ghế chưa bị thay đổi
+          extensionCount: booking.extensionCount // Số lần gia hạn chưa bị thay đổi
+        },
+        {
+          $set: { expiresAt, expiryWarningsSent: [] }, // Hạn giữ ghế mới, gửi lại các cảnh báo
+          $inc: { extensionCount: 1 } // Tăng số lần gia hạn
+        },
+        { new: true, session } // Trả về bản ghi mới, dùng session
+      );
+
+      if (!extended) { // Đặt chỗ đã bị thay đổi bởi một yêu cầu khác
+        await session.abortTransaction(); // Hủy transaction
+        return null; // Trả về null
+      }
+
+      await Seat.updateMany(
+        { bookingId: extended._id, status: 'reserved' }, // Tìm các ghế đang giữ của đặt chỗ
+        { expiresAt }, // Cập nhật hạn giữ ghế
+        { session } // Dùng session
+      );
+
+      await session.commitTransaction(); // Xác nhận transaction
+      return extended; // Trả về đặt chỗ đã gia hạn
+    } catch (error) {
+      await session.abortTransaction(); // Hủy transaction nếu có lỗi
+      throw error; // Ném lỗi
+    } finally {
+      session.endSession(); // Kết thúc session
+    }
+  }
+
+  // Khóa đặt chỗ để thanh toán; chỉ một yêu cầu thắng nhờ điều kiện trên paymentStatus
+  async lockForPayment(id: string, now: Date): Promise<IBooking | null> {
+    if (!mongoose.Types.ObjectId.isValid(id)) { // Kiểm tra tính hợp lệ của ID
+      throw new Error('Invalid booking ID'); // Ném lỗi nếu không hợp lệ
+    }
+
+    return await Booking.findOneAndUpdate(
+      {
+        _id: id, // Tìm đặt chỗ theo ID
+        bookingStatus: 'reserved', // Vẫn đang giữ ghế
+        paymentStatus: { $in: ['pending', 'failed'] }, // Chưa thanh toán và không có thanh toán nào đang xử lý
+        $or: [
+          { expiresAt: { $gt: now } }, // Chưa hết hạn giữ ghế
+          { expiresAt: { $exists: false } } // Hoặc đặt chỗ cũ không có hạn giữ ghế
+        ]
+      },
+      { paymentStatus: 'processing' }, // Đánh dấu đang thanh toán
+      { new: true } // Trả về bản ghi mới
+    );
+  }
+
+  // Mở khóa thanh toán, trả đặt chỗ về trạng thái thanh toán cho trước
+  async releasePaymentLock(id: string, paymentStatus: IBooking['paymentStatus']): Promise<IBooking | null> {
+    return await Booking.findOneAndUpdate(
+      { _id: id, paymentStatus: 'processing' }, // Chỉ khi vẫn đang bị khóa
+      { paymentStatus }, // Cập nhật trạng thái thanh toán
+      { new: true } // Trả về bản ghi mới
+    );
+  }
+
+  // Hoàn tất thanh toán; trả về null nếu đặt chỗ đã bị hủy hoặc hết hạn trong lúc thanh toán
+  async completePayment(id: string, paymentMethod: string, transactionId: string | undefined, amount: number): Promise<IBooking | null> {
+    const session = await mongoose.startSession(); // Bắt đầu session
+    session.startTransaction(); // Bắt đầu transaction
+
+    try {
+      const booking = await Booking.findOneAndUpdate(
+        {
+          _id: id, // Tìm đặt chỗ theo ID
+          bookingStatus: 'reserved', // Vẫn đang giữ ghế
+          paymentStatus: 'processing' // Đang được khóa để thanh toán
+        },
+        {
+          bookingStatus: 'confirmed', // Cập nhật trạng thái thành "confirmed"
+          paymentStatus: 'completed', // Cập nhật thanh toán thành "completed"
+          paymentMethod, // Phương thức đã dùng
+          transactionId, // Mã giao dịch
+          charges: transactionId ? [{ paymentMethod, transactionId, amount, chargedAt: new Date() }] : [], // Khoản tiền đã thu
+          $unset: { expiresAt: 1 } // Không còn hạn giữ ghế
+        },
+        { new: true, session } // Trả về bản ghi mới, dùng session
+      );
+
+      if (!booking) { // Đặt chỗ đã bị hủy hoặc hết hạn
+        await session.abortTransaction(); // Hủy transaction
+        return null; // Trả về null
+      }
+
+      await Seat.updateMany(
+        { bookingId: booking._id }, // Tìm các ghế liên quan
+        {
+          status: 'booked', // Cập nhật trạng thái thành "booked"
+          $unset: { expiresAt: 1 } // Xóa thời gian hết hạn
+        },
+        { session } // Dùng session
+      );
+
+      await session.commitTransaction(); // Xác nhận transaction
+      return booking; // Trả về đặt chỗ đã xác nhận
+    } catch (error) {
+      await session.abortTransaction(); // Hủy transaction nếu có lỗi
+      throw error; // Ném lỗi
+    } finally {
+      session.endSession(); // Kết thúc session
+    }
+  }
+
+  // Tìm các đặt chỗ đã hết hạn giữ ghế
+  async findExpiredReservations(now: Date, limit: number): Promise<IBooking[]> {
+    return await Booking.find({
+      bookingStatus: 'reserved', // Chỉ các đặt chỗ đang giữ ghế
+      expiresAt: { $lte: now }, // Đã quá hạn
+      $or: [
+        { paymentStatus: { $ne: 'processing' } }, // Không có thanh toán đang xử lý
+        { updatedAt: { $lte: this.paymentLockCutoff(now) } } // Hoặc thanh toán bị kẹt quá lâu
+      ]
+    })
+      .sort({ expiresAt: 1 }) // Hết hạn sớm nhất trước
+      .limit(limit);
+  }
+
+  // Tìm các đặt chỗ sắp hết hạn giữ ghế
+  async findExpiringReservations(now: Date, until: Date): Promise<IBooking[]> {
+    return await Booking.find({
+      bookingStatus: 'reserved', // Chỉ các đặt chỗ đang giữ ghế
+      expiresAt: { $gt: now, $lte: until } // Hết hạn trong khoảng thời gian cho trước
+    });
+  }
+
+  // Đánh dấu đã gửi cảnh báo; trả về false nếu một instance khác đã gửi trước
+  async markExpiryWarningSent(id: string, minutesLeft: number, thresholds: number[]): Promise<boolean> {
+    const result = await Booking.updateOne(
+      { _id: id, bookingStatus: 'reserved', expiryWarningsSent: { $ne: minutesLeft } }, // Chưa gửi cảnh báo của mốc hiện tại
+      { $addToSet: { expiryWarningsSent: { $each: thresholds } } } // Ghi nhận mốc hiện tại và các mốc lớn hơn
+    );
+
+    return result.modifiedCount > 0;
+  }
+
+  // Hủy một đặt chỗ đã hết hạn; chỉ một instance thắng nhờ điều kiện trên trạng thái và hạn giữ ghế
+  async expireBooking(id: string, now: Date): Promise<IBooking | null> {
+    const session = await mongoose.startSession(); // Bắt đầu session
+    session.startTransaction(); // Bắt đầu transaction
+
+    try {
+      const booking = await Booking.findOneAndUpdate(
+        {
+          _id: id, // Tìm đặt chỗ theo ID
+          bookingStatus: 'reserved', // Vẫn đang giữ ghế
+          expiresAt: { $lte: now }, // Đã quá hạn
+          $or: [
+            { paymentStatus: { $nin: ['completed', 'processing'] } }, // Chưa thanh toán
+            { paymentStatus: 'processing', updatedAt: { $lte: this.paymentLockCutoff(now) } } // Thanh toán bị kẹt quá lâu
+          ]
+        },
+        {
+          bookingStatus: 'cancelled', // Cập nhật trạng thái thành "cancelled"
+          cancelledAt: now, // Thời điểm hủy
+          cancellationReason: 'expired' // Lý do hủy
+        },
+        { new: true, session } // Trả về bản ghi mới, dùng session
+      );
+
+      if (!booking) { // Đã được xử lý bởi instance khác hoặc đã thanh toán
+        await session.abortTransaction(); // Hủy transaction
+        return null; // Trả về null
+      }
+
+      await Seat.updateMany(
+        { bookingId: booking._id, status: 'reserved' }, // Các ghế đang giữ của đặt chỗ
+        {
+          status: 'available', // Cập nhật trạng thái thành "available"
+          $unset: { bookingId: 1, expiresAt: 1, heldBy: 1, holdToken: 1, holdExtensions: 1, checkedInAt: 1, checkedInBy: 1 } // Xóa liên kết đặt chỗ và người giữ ghế
+        },
+        { session } // Dùng session
+      );
+
+      await this.releasePromotion(booking, session); // Trả lại lượt dùng mã khuyến mãi
+
+      await session.commitTransaction(); // Xác nhận transaction
+      return booking; // Trả về đặt chỗ đã hết hạn
+    } catch (error) {
+      await session.abortTransaction(); // Hủy transaction nếu có lỗi
+      throw error; // Ném lỗi
+    } finally {
+      session.endSession(); // Kết thúc session
+    }
+  }
+
+  // Tìm các đặt chỗ đã xác nhận của các suất chiếu cho trước mà chưa được nhắc
+  async findUnremindedByShowtimes(showtimeIds: string[]): Promise<IBooking[]> {
+    return await Booking.find({
+      showtimeId: { $in: showtimeIds }, // Theo danh sách suất chiếu
+      bookingStatus: 'confirmed', // Chỉ các đặt chỗ đã xác nhận
+      reminderSentAt: { $exists: false } // Chưa gửi nhắc nhở
+    });
+  }
+
+  // Đánh dấu đã gửi nhắc nhở; trả về false nếu một instance khác đã gửi trước
+  async markReminderSent(id: string): Promise<boolean> {
+    const result = await Booking.updateOne(
+      { _id: id, reminderSentAt: { $exists: false } }, // Chưa gửi nhắc nhở
+      { reminderSentAt: new Date() } // Thời điểm gửi
+    );
+
+    return result.modifiedCount > 0;
+  }
+
+  // Bỏ đánh dấu đã gửi nhắc nhở để lần quét sau gửi lại
+  async releaseReminderClaim(id: string): Promise<void> {
+    await Booking.updateOne(
+      { _id: id }, // Tìm đặt chỗ theo ID
+      { $unset: { reminderSentAt: 1 } } // Xóa thời điểm gửi
+    );
+  }
+
+  // Lưu một hoặc nhiều lần hoàn tiền và cập nhật trạng thái thanh toán
+  async recordRefund(id: string, refund: IRefund | IRefund[], paymentStatus?: IBooking['paymentStatus']): Promise<IBooking | null> {
+    if (!mongoose.Types.ObjectId.isValid(id)) { // Kiểm tra tính hợp lệ của ID
+      throw new Error('Invalid booking ID'); // Ném lỗi nếu ID không hợp lệ
+    }
+
+    return await Booking.findByIdAndUpdate(
+      id, // Tìm đặt chỗ theo ID
+      {
+        $push: { refunds: { $each: Array.isArray(refund) ? refund : [refund] } }, // Thêm các bản ghi hoàn tiền
+        ...(paymentStatus ? { $set: { paymentStatus } } : {}) // Cập nhật trạng thái thanh toán nếu được truyền vào
+      },
+      { new: true } // Trả về bản ghi mới
+    );
+  }
+
+  // Cấp số hóa đơn tuần tự theo năm cho đặt chỗ (nếu chưa có) cùng nội dung hóa đơn; số chỉ được tăng khi thực sự gán cho đặt chỗ
+  async assignInvoice(id: string, prefix: string, vatRate: number, issuedAt: Date, snapshot: IInvoiceSnapshot): Promise<IBooking | null> {
+    if (!mongoose.Types.ObjectId.isValid(id)) { // Kiểm tra tính hợp lệ của ID
+      throw new Error('Invalid booking ID'); // Ném lỗi nếu ID không hợp lệ
+    }
+
+    const session = await mongoose.startSession(); // Bắt đầu session
+    session.startTransaction(); // Bắt đầu transaction
+
+    try {
+      const existing = await Booking.findById(id).session(session); // Đọc đặt chỗ trong transaction
+      if (!existing || existing.invoice?.number) { // Không tồn tại hoặc đã có hóa đơn
+        await session.abortTransaction(); // Hủy transaction
+        return existing; // Trả về đặt chỗ hiện tại
+      }
+
+      const year = issuedAt.getFullYear(); // Số hóa đơn đánh lại từ đầu mỗi năm
+      const seq = await nextSequence(`invoice-${year}`, session); // Số tiếp theo của năm
+      const invoice = { ...snapshot, number: `${prefix}-${year}-${String(seq).padStart(6, '0')}`, issuedAt, vatRate }; // Số hóa đơn kèm nội dung đã chốt
+
+      const booking = await Booking.findOneAndUpdate(
+        { _id: id, 'invoice.number': { $exists: false } }, // Chỉ một yêu cầu được cấp số
+        { invoice }, // Lưu hóa đơn
+        { new: true, session } // Trả về bản ghi mới, dùng session
+      );
+
+      if (!booking) { // Yêu cầu khác đã cấp số trước
+        await session.abortTransaction(); // Hủy transaction, số vừa lấy được trả lại
+        return await Booking.findById(id);
+      }
+
+      await session.commitTransaction(); // Xác nhận transaction
+      return booking; // Trả về đặt chỗ đã có hóa đơn
+    } catch (error) {
+      await session.abortTransaction(); // Hủy transaction nếu có lỗi
+      throw error; // Ném lỗi
+    } finally {
+      session.endSession(); // Kết thúc session
+    }
+  }
+
+  // Trả lại lượt dùng mã khuyến mãi của một đặt chỗ vừa bị hủy
+  private async releasePromotion(booking: IBooking, session: ClientSession): Promise<void> {
+    if (!booking.discount?.promotionId) { // Đặt chỗ không dùng mã
+      return;
+    }
+
+    await Promotion.updateOne(
+      { _id: booking.discount.promotionId, usedCount: { $gt: 0 } }, // Không để số lượt dùng bị âm
+      { $inc: { usedCount: -1 } }, // Giảm số lượt dùng
+      { session } // Dùng session
+    );
+  }
+
+  // Mốc thời gian trước đó một khóa thanh toán được coi là bị kẹt
+  private paymentLockCutoff(now: Date): Date {
+    return new Date(now.getTime() - PAYMENT_LOCK_TIMEOUT_MINUTES * 60 * 1000);
+  }
+}
@@ -0,0 +1,100 @@
+// Triển khai Repository Pattern để truy cập dữ liệu các lần thanh toán
+import mongoose from 'mongoose';
+import { Payment, IPayment } from '../../models/payment.model';
+
+const DUPLICATE_KEY_CODE = 11000; // Mã lỗi MongoDB khi vi phạm unique index
+const OPEN_STATUSES = ['processing', 'pending']; // Các trạng thái chưa có kết quả cuối cùng
+export const PAYMENT_TIMEOUT_ERROR = 'Payment timed out'; // Lỗi ghi nhận khi cổng không trả lời trước khi hết hạn giữ ghế
+
+// Giao diện Repository cho thanh toán
+export interface IPaymentRepository {
+  findById(id: string): Promise<IPayment | null>; // Tìm lần thanh toán theo ID
+  findByIdempotencyKey(userId: string, idempotencyKey: string): Promise<IPayment | null>; // Tìm lần thanh toán theo khóa idempotency
+  findByBookingId(bookingId: string): Promise<IPayment[]>; // Lấy lịch sử thanh toán của một đặt chỗ
+  create(paymentData: Partial<IPayment>): Promise<IPayment | null>; // Tạo lần thanh toán mới, null nếu khóa đã được dùng
+  markPending(id: string, transactionId: string, checkoutUrl?: string): Promise<IPayment | null>; // Đánh dấu đang chờ cổng thanh toán xác nhận
+  markSucceeded(id: string, transactionId?: string, allowTimedOut?: boolean): Promise<IPayment | null>; // Đánh dấu thanh toán thành công
+  markFailed(id: string, error: string): Promise<IPayment | null>; // Đánh dấu thanh toán thất bại
+  failOpenByBookingId(bookingId: string, error: string): Promise<number>; // Đánh dấu thất bại mọi lần thanh toán chưa có kết quả của một đặt chỗ
+}
+
+// Triển khai cụ thể lớp Repository cho thanh toán
+export class PaymentRepository implements IPaymentRepository {
+  // Tìm lần thanh toán theo ID
+  async findById(id: string): Promise<IPayment | null> {
+    if (!mongoose.Types.ObjectId.isValid(id)) { // ID không hợp lệ thì không thể tồn tại
+      return null;
+    }
+
+    return await Payment.findById(id);
+  }
+
+  // Tìm lần thanh toán theo khóa idempotency của người dùng
+  async findByIdempotencyKey(userId: string, idempotencyKey: string): Promise<IPayment | null> {
+    return await Payment.findOne({ userId, idempotencyKey });
+  }
+
+  // Lấy lịch sử thanh toán của một đặt chỗ, mới nhất trước
+  async findByBookingId(bookingId: string): Promise<IPayment[]> {
+    if (!mongoose.Types.ObjectId.isValid(bookingId)) { // Kiểm tra tính hợp lệ của ID
+      throw new Error('Invalid booking ID'); // Ném lỗi nếu ID không hợp lệ
+    }
+
+    return await Payment.find({ bookingId }).sort({ createdAt: -1 });
+  }
+
+  // Tạo lần thanh toán mới; trả về null nếu một yêu cầu khác đã dùng khóa idempotency này
+  async create(paymentData: Partial<IPayment>): Promise<IPayment | null> {
+    try {
+      return await Payment.create(paymentData);
+    } catch (error: any) {
+      if (error?.code === DUPLICATE_KEY_CODE) { // Khóa idempotency đã tồn tại
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  // Đánh dấu đang chờ cổng thanh toán xác nhận qua webhook
+  async markPending(id: string, transactionId: string, checkoutUrl?: string): Promise<IPayment | null> {
+    return await Payment.findOneAndUpdate(
+      { _id: id, status: 'processing' }, // Chỉ khi vừa được tạo
+      { status: 'pending', transactionId, checkoutUrl },
+      { new: true }
+    );
+  }
+
+  // Đánh dấu thanh toán thành công; trả về null nếu lần thanh toán đã có kết quả (vd. webhook gửi lặp)
+  // allowTimedOut: cổng vẫn có thể xác nhận trễ một lần thanh toán đã bị coi là quá hạn
+  async markSucceeded(id: string, transactionId?: string, allowTimedOut: boolean = false): Promise<IPayment | null> {
+    const openFilter: Record<string, any>[] = [{ status: { $in: OPEN_STATUSES } }]; // Chưa có kết quả cuối cùng
+    if (allowTimedOut) {
+      openFilter.push({ status: 'failed', error: PAYMENT_TIMEOUT_ERROR }); // Hoặc đã bị coi là quá hạn
+    }
+
+    return await Payment.findOneAndUpdate(
+      { _id: id, $or: openFilter },
+      { status: 'succeeded', transactionId, completedAt: new Date() },
+      { new: true }
+    );
+  }
+
+  // Đánh dấu thanh toán thất bại; trả về null nếu lần thanh toán đã có kết quả
+  async markFailed(id: string, error: string): Promise<IPayment | null> {
+    return await Payment.findOneAndUpdate(
+      { _id: id, status: { $in: OPEN_STATUSES } }, // Chưa có kết quả cuối cùng
+      { status: 'failed', error, completedAt: new Date() },
+      { new: true }
+    );
+  }
+
+  // Đánh dấu thất bại mọi lần thanh toán chưa có kết quả của một đặt chỗ (vd. cổng không bao giờ gửi webhook)
+  async failOpenByBookingId(bookingId: string, error: string): Promise<number> {
+    const result = await Payment.updateMany(
+      { bookingId, status: { $in: OPEN_STATUSES } }, // Các lần thanh toán chưa có kết quả
+      { status: 'failed', error, completedAt: new Date() }
+    );
+
+    return result.modifiedCount;
+  }
+}
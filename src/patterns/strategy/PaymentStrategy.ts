@@ -1,10 +1,13 @@
 // Triển khai Strategy Pattern cho xử lý thanh toán
+import { PAYMENT_GATEWAY_URL } from '../../config/payment';
 
 // Định nghĩa interface cho kết quả thanh toán
 export interface PaymentResult {
   success: boolean; // Trạng thái thành công hay thất bại
   transactionId?: string; // ID giao dịch (tùy chọn, chỉ có khi thành công)
   message: string; // Thông điệp mô tả kết quả
+  pending?: boolean; // true nếu kết quả cuối cùng sẽ được cổng thanh toán gửi về qua webhook
+  checkoutUrl?: string; // Trang thanh toán của cổng để chuyển hướng khách hàng (khi pending)
 }
 
 // Giao diện Strategy cho các phương thức thanh toán
@@ -47,7 +50,7 @@ export class CreditCardPayment implements PaymentStrategy { // Lớp triển kha
 
       return { // Trả về kết quả thành công
         success: true,
-        transactionId,
+        transactionId: `ccr_${Date.now()}_${Math.floor(Math.random() * 1000)}`, // ID giao dịch hoàn tiền giả lập (bắt đầu bằng "ccr")
         message: "Credit card refund successful" // Thông điệp thành công
       };
     } catch (error: any) { // Bắt lỗi nếu có
@@ -93,7 +96,7 @@ export class PayPalPayment implements PaymentStrategy { // Lớp triển khai gi
 
       return { // Trả về kết quả thành công
         success: true,
-        transactionId,
+        transactionId: `ppr_${Date.now()}_${Math.floor(Math.random() * 1000)}`, // ID giao dịch hoàn tiền giả lập (bắt đầu bằng "ppr")
         message: "PayPal refund successful" // Thông điệp thành công
       };
     } catch (error: any) { // Bắt lỗi nếu có
@@ -105,6 +108,70 @@ export class PayPalPayment implements PaymentStrategy { // Lớp triển khai gi
   }
 }
 
+// Chiến lược cụ thể: Thanh toán qua cổng thanh toán chuyển hướng (kết quả trả về qua webhook)
+export class GatewayRedirectPayment implements PaymentStrategy { // Lớp triển khai giao diện PaymentStrategy
+  constructor(private gatewayUrl: string = PAYMENT_GATEWAY_URL) { } // Địa chỉ API của cổng thanh toán
+
+  async pay(amount: number, currency: string, userData: any): Promise<PaymentResult> { // Phương thức thanh toán
+    try { // Bắt đầu khối try-catch để xử lý lỗi
+      const response = await fetch(`${this.gatewayUrl}/checkouts`, { // Tạo phiên thanh toán trên cổng
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          amount,
+          currency,
+          reference: userData.reference, // Mã tham chiếu của lần thanh toán phía chúng ta
+          simulate: userData.simulate // Kịch bản cho bộ giả lập (approve, decline, timeout)
+        })
+      });
+      const checkout: any = await response.json();
+
+      if (!response.ok) { // Cổng từ chối tạo phiên thanh toán
+        return { success: false, message: checkout.message || 'Payment gateway rejected the checkout' };
+      }
+
+      return { // Trả về kết quả đang chờ khách hàng xác nhận trên cổng
+        success: true,
+        pending: true,
+        transactionId: checkout.id, // ID thanh toán phía cổng
+        checkoutUrl: checkout.checkoutUrl,
+        message: "Awaiting confirmation from payment gateway"
+      };
+    } catch (error: any) { // Bắt lỗi nếu có (vd. không kết nối được tới cổng)
+      return { // Trả về kết quả thất bại
+        success: false,
+        message: error.message || "Payment gateway is unavailable" // Thông điệp lỗi
+      };
+    }
+  }
+
+  async refund(transactionId: string, amount: number): Promise<PaymentResult> { // Phương thức hoàn tiền
+    try { // Bắt đầu khối try-catch để xử lý lỗi
+      const response = await fetch(`${this.gatewayUrl}/payments/${transactionId}/refunds`, { // Yêu cầu cổng hoàn tiền
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ amount })
+      });
+      const refund: any = await response.json();
+
+      if (!response.ok) { // Cổng từ chối hoàn tiền
+        return { success: false, message: refund.message || 'Payment gateway refund failed' };
+      }
+
+      return { // Trả về kết quả thành công
+        success: true,
+        transactionId: refund.id, // ID giao dịch hoàn tiền phía cổng
+        message: "Payment gateway refund successful" // Thông điệp thành công
+      };
+    } catch (error: any) { // Bắt lỗi nếu có
+      return { // Trả về kết quả thất bại
+        success: false,
+        message: error.message || "Payment gateway refund failed" // Thông điệp lỗi
+      };
+    }
+  }
+}
+
 // Context: Bộ xử lý thanh toán
 export class PaymentProcessor { // Lớp context để quản lý chiến lược thanh toán
   private strategy: PaymentStrategy; // Biến lưu chiến lược thanh toán hiện tại
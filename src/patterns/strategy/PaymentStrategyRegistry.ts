@@ -0,0 +1,139 @@
+// Registry cho các chiến lược thanh toán: mỗi chiến lược đăng ký theo một khóa cùng với mô tả của nó
+import { PaymentStrategy, CreditCardPayment, PayPalPayment, GatewayRedirectPayment } from './PaymentStrategy';
+import { PAYMENT_GATEWAY_URL } from '../../config/payment';
+
+// Mô tả một trường bắt buộc trong paymentDetails
+export interface PaymentFieldDefinition {
+  name: string; // Tên trường trong paymentDetails
+  label: string; // Tên hiển thị
+  pattern?: RegExp; // Định dạng hợp lệ (tùy chọn)
+}
+
+// Thông tin đăng ký của một phương thức thanh toán
+export interface PaymentMethodDefinition {
+  key: string; // Khóa dùng trong paymentMethod
+  displayName: string; // Tên hiển thị
+  supportedCurrencies: string[]; // Các loại tiền tệ được hỗ trợ
+  requiredFields: PaymentFieldDefinition[]; // Các trường bắt buộc trong paymentDetails
+  settlesAsynchronously?: boolean; // Kết quả thanh toán chỉ có sau (qua webhook), không dùng được khi cần thu tiền ngay
+  create(): PaymentStrategy; // Tạo instance chiến lược
+}
+
+// Thông tin công khai trả về cho client
+export interface PaymentMethodInfo {
+  key: string;
+  displayName: string;
+  supportedCurrencies: string[];
+  requiredFields: { name: string; label: string; pattern?: string }[];
+}
+
+export class PaymentStrategyRegistry {
+  private static instance: PaymentStrategyRegistry; // Instance duy nhất (Singleton)
+  private methods: Map<string, PaymentMethodDefinition> = new Map(); // Các phương thức đã đăng ký theo khóa
+
+  private constructor() { }
+
+  public static getInstance(): PaymentStrategyRegistry {
+    if (!PaymentStrategyRegistry.instance) {
+      PaymentStrategyRegistry.instance = new PaymentStrategyRegistry();
+    }
+    return PaymentStrategyRegistry.instance;
+  }
+
+  // Đăng ký một phương thức thanh toán
+  register(definition: PaymentMethodDefinition): void {
+    const key = definition.key.toLowerCase();
+    if (this.methods.has(key)) {
+      throw new Error(`Payment method ${key} is already registered`);
+    }
+    this.methods.set(key, { ...definition, key });
+  }
+
+  has(key: string): boolean {
+    return this.methods.has((key || '').toLowerCase());
+  }
+
+  get(key: string): PaymentMethodDefinition | undefined {
+    return this.methods.get((key || '').toLowerCase());
+  }
+
+  // Tạo chiến lược theo khóa, trả về null nếu phương thức không được hỗ trợ
+  createStrategy(key: string): PaymentStrategy | null {
+    const definition = this.get(key);
+    return definition ? definition.create() : null;
+  }
+
+  list(): PaymentMethodInfo[] {
+    return Array.from(this.methods.values()).map(definition => ({
+      key: definition.key,
+      displayName: definition.displayName,
+      supportedCurrencies: definition.supportedCurrencies,
+      requiredFields: definition.requiredFields.map(field => ({
+        name: field.name,
+        label: field.label,
+        pattern: field.pattern?.source
+      }))
+    }));
+  }
+
+  // Kiểm tra paymentDetails theo mô tả của phương thức; trả về danh sách lỗi (rỗng nếu hợp lệ)
+  validateDetails(key: string, paymentDetails: any, currency?: string): string[] {
+    const definition = this.get(key);
+    if (!definition) {
+      return [`Unsupported payment method: ${key}`];
+    }
+
+    const errors: string[] = [];
+
+    if (currency && !definition.supportedCurrencies.includes(currency)) {
+      errors.push(`${definition.displayName} does not support currency ${currency}`);
+    }
+
+    for (const field of definition.requiredFields) {
+      const value = paymentDetails ? paymentDetails[field.name] : undefined;
+      if (value === undefined || value === null || String(value).trim() === '') {
+        errors.push(`${field.label} is required`);
+      } else if (field.pattern && !field.pattern.test(String(value))) {
+        errors.push(`${field.label} is invalid`);
+      }
+    }
+
+    return errors;
+  }
+}
+
+export const paymentStrategyRegistry = PaymentStrategyRegistry.getInstance();
+
+paymentStrategyRegistry.register({
+  key: 'credit_card',
+  displayName: 'Credit card',
+  supportedCurrencies: ['VND', 'USD'],
+  requiredFields: [
+    { name: 'cardNumber', label: 'Card number', pattern: /^\d{12,19}$/ },
+    { name: 'expiryDate', label: 'Expiry date', pattern: /^(0[1-9]|1[0-2])\/\d{2}$/ },
+    { name: 'cvv', label: 'CVV', pattern: /^\d{3,4}$/ }
+  ],
+  create: () => new CreditCardPayment()
+});
+
+paymentStrategyRegistry.register({
+  key: 'paypal',
+  displayName: 'PayPal',
+  supportedCurrencies: ['VND', 'USD'],
+  requiredFields: [
+    { name: 'email', label: 'PayPal email', pattern: /^[^\s@]+@[^\s@]+\.[^\s@]+$/ }
+  ],
+  create: () => new PayPalPayment()
+});
+
+// Chỉ cho phép thanh toán qua cổng khi có cổng thật hoặc bộ giả lập đã được bật
+if (PAYMENT_GATEWAY_URL) {
+  paymentStrategyRegistry.register({
+    key: 'gateway',
+    displayName: 'Online payment gateway',
+    supportedCurrencies: ['VND', 'USD'],
+    requiredFields: [],
+    settlesAsynchronously: true,
+    create: () => new GatewayRedirectPayment()
+  });
+}
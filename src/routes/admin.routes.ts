@@ -1,9 +1,32 @@
 import express from "express";
 import { authenticateToken, authorizeRoles } from "../middlewares/auth.middleware";
 import { UserController } from "../controllers/user.controller";
+import { JobController } from "../controllers/job.controller";
+import { PromotionController } from "../controllers/promotion.controller";
+import { PricingRuleController } from "../controllers/pricingRule.controller";
+import { CancellationPolicyController } from "../controllers/cancellationPolicy.controller";
 
 const adminRoutes = express.Router();
 
 adminRoutes.get("/users", authenticateToken, authorizeRoles("admin"), UserController.getAllUsers);
+adminRoutes.get("/jobs", authenticateToken, authorizeRoles("admin"), JobController.getJobs);
+
+adminRoutes.get("/promotions", authenticateToken, authorizeRoles("admin"), PromotionController.getAllPromotions);
+adminRoutes.get("/promotions/:id", authenticateToken, authorizeRoles("admin"), PromotionController.getPromotionById);
+adminRoutes.post("/promotions", authenticateToken, authorizeRoles("admin"), PromotionController.createPromotion);
+adminRoutes.put("/promotions/:id", authenticateToken, authorizeRoles("admin"), PromotionController.updatePromotion);
+adminRoutes.delete("/promotions/:id", authenticateToken, authorizeRoles("admin"), PromotionController.deletePromotion);
+
+adminRoutes.get("/pricing-rules", authenticateToken, authorizeRoles("admin"), PricingRuleController.getAllRules);
+adminRoutes.get("/pricing-rules/:id", authenticateToken, authorizeRoles("admin"), PricingRuleController.getRuleById);
+adminRoutes.post("/pricing-rules", authenticateToken, authorizeRoles("admin"), PricingRuleController.createRule);
+adminRoutes.put("/pricing-rules/:id", authenticateToken, authorizeRoles("admin"), PricingRuleController.updateRule);
+adminRoutes.delete("/pricing-rules/:id", authenticateToken, authorizeRoles("admin"), PricingRuleController.deleteRule);
+
+adminRoutes.get("/cancellation-policies", authenticateToken, authorizeRoles("admin"), CancellationPolicyController.getAllPolicies);
+adminRoutes.get("/cancellation-policies/:id", authenticateToken, authorizeRoles("admin"), CancellationPolicyController.getPolicyById);
+adminRoutes.post("/cancellation-policies", authenticateToken, authorizeRoles("admin"), CancellationPolicyController.createPolicy);
+adminRoutes.put("/cancellation-policies/:id", authenticateToken, authorizeRoles("admin"), CancellationPolicyController.updatePolicy);
+adminRoutes.delete("/cancellation-policies/:id", authenticateToken, authorizeRoles("admin"), CancellationPolicyController.deletePolicy);
 
 export default adminRoutes;
\ No newline at end of file
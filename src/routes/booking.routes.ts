@@ -10,8 +10,16 @@ bookingRoutes.use(authenticateToken);
 // User booking routes
 bookingRoutes.post("/", authenticateToken, BookingController.createBooking);
 bookingRoutes.post("/payment", authenticateToken, BookingController.processPayment);
+bookingRoutes.post("/:id/extend", authenticateToken, BookingController.extendHold);
+bookingRoutes.post("/:id/exchange", authenticateToken, BookingController.exchangeBooking);
 bookingRoutes.delete("/:id", authenticateToken, BookingController.cancelBooking);
+bookingRoutes.delete("/:id/seats/:seatId", authenticateToken, BookingController.cancelSeat);
 bookingRoutes.get("/", authenticateToken, BookingController.getUserBookings);
+bookingRoutes.get("/:id/payments", authenticateToken, BookingController.getBookingPayments);
+bookingRoutes.get("/:id/tickets", authenticateToken, BookingController.getTickets);
+bookingRoutes.get("/:id/ticket.pdf", authenticateToken, BookingController.getTicketPdf);
+bookingRoutes.get("/:id/invoice.pdf", authenticateToken, BookingController.getInvoicePdf);
+bookingRoutes.get("/:id/cancellation-quote", authenticateToken, BookingController.getCancellationQuote);
 bookingRoutes.get("/:id", authenticateToken, BookingController.getBookingDetails);
 
 export default bookingRoutes;
\ No newline at end of file
@@ -0,0 +1,10 @@
+import express, { Router } from "express";
+import { CheckinController } from "../controllers/checkin.controller";
+import { authenticateToken, authorizeRoles } from "../middlewares/auth.middleware";
+
+const checkinRoutes: Router = express.Router();
+
+// Staff routes - door staff scan tickets
+checkinRoutes.post("/", authenticateToken, authorizeRoles("staff", "admin"), CheckinController.checkIn);
+
+export default checkinRoutes;
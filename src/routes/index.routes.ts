@@ -8,6 +8,8 @@ import theaterRoutes from "./theater.routes";
 import screenRoutes from "./screen.routes";
 import seatRoutes from "./seat.routes";
 import chatRoutes from "./chat.routes"; 
+import paymentRoutes from "./payment.routes";
+import checkinRoutes from "./checkin.routes";
 
 const router = Router();
 
@@ -20,5 +22,7 @@ router.use("/bookings", bookingRoutes);
 router.use("/theaters", theaterRoutes);
 router.use("/screens", screenRoutes);
 router.use("/chat", chatRoutes); 
+router.use("/payments", paymentRoutes);
+router.use("/checkin", checkinRoutes);
 
 export default router;
\ No newline at end of file
@@ -0,0 +1,12 @@
+import express, { Router } from "express";
+import { PaymentController } from "../controllers/payment.controller";
+
+const paymentRoutes: Router = express.Router();
+
+// Public routes
+paymentRoutes.get("/methods", PaymentController.getPaymentMethods);
+
+// Gateway callbacks, authenticated by their HMAC signature
+paymentRoutes.post("/webhook", PaymentController.handleWebhook);
+
+export default paymentRoutes;
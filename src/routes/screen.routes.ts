@@ -14,5 +14,16 @@ screenRoutes.post("/", authenticateToken, authorizeRoles("admin"), ScreenControl
 screenRoutes.put("/:id", authenticateToken, authorizeRoles("admin"), ScreenController.updateScreen);
 screenRoutes.delete("/:id", authenticateToken, authorizeRoles("admin"), ScreenController.deleteScreen);
 screenRoutes.put("/:id/seats", authenticateToken, authorizeRoles("admin"), ScreenController.updateScreenSeats);
+screenRoutes.get("/:id/layout/versions", authenticateToken, authorizeRoles("admin"), ScreenController.getLayoutVersions);
+screenRoutes.get("/:id/layout/propagation", authenticateToken, authorizeRoles("admin"), ScreenController.previewLayoutPropagation);
+screenRoutes.post("/:id/layout/propagate", authenticateToken, authorizeRoles("admin"), ScreenController.propagateLayout);
+screenRoutes.get("/:id/layout/export", authenticateToken, authorizeRoles("admin"), ScreenController.exportLayout);
+screenRoutes.post(
+  "/:id/layout/import",
+  authenticateToken,
+  authorizeRoles("admin"),
+  express.text({ type: ["text/csv", "text/plain"], limit: "1mb" }),
+  ScreenController.importLayout
+);
 
 export default screenRoutes;
\ No newline at end of file
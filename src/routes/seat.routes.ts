@@ -33,12 +33,17 @@ seatRoutes.post("/reserve", authenticateToken, async (req: Request, res: Respons
     await SeatController.reserveSeat(req, res);
 });
 
-// Xác nhận đặt ghế (booked) - yêu cầu đăng nhập
+// Gia hạn thời gian giữ ghế - chỉ người giữ ghế hoặc admin
+seatRoutes.post("/extend", authenticateToken, async (req: Request, res: Response) => {
+    await SeatController.extendHold(req, res);
+});
+
+// Xác nhận đặt ghế (booked) bằng mã giữ ghế - yêu cầu đăng nhập
 seatRoutes.post("/book", authenticateToken, async (req: Request, res: Response) => {
     await SeatController.bookSeat(req, res);
 });
 
-// Hủy đặt ghế - yêu cầu đăng nhập
+// Hủy giữ ghế - chỉ người giữ ghế hoặc admin
 seatRoutes.post("/release", authenticateToken, async (req: Request, res: Response) => {
     await SeatController.releaseSeat(req, res);
 });
@@ -1,5 +1,6 @@
 import express, { Router } from "express";
 import { ShowtimeController } from "../controllers/showtime.controller";
+import { CheckinController } from "../controllers/checkin.controller";
 import { authenticateToken, authorizeRoles } from "../middlewares/auth.middleware";
 
 const showtimeRoutes: Router = express.Router();
@@ -10,6 +11,10 @@ showtimeRoutes.get("/:id", ShowtimeController.getShowtimeById);
 showtimeRoutes.get("/movie/:movieId", ShowtimeController.getShowtimesByMovie);
 showtimeRoutes.get("/theater/:theaterId", ShowtimeController.getShowtimesByTheater);
 showtimeRoutes.get("/:id/seats", ShowtimeController.getShowtimeSeats);
+showtimeRoutes.get("/:id/price-breakdown", ShowtimeController.getPriceBreakdown);
+
+// Staff routes - door staff and admins
+showtimeRoutes.get("/:id/attendance", authenticateToken, authorizeRoles("staff", "admin"), CheckinController.getAttendance);
 
 // Admin routes - require authentication and admin role
 showtimeRoutes.post("/", authenticateToken, authorizeRoles("admin"), ShowtimeController.createShowtime);
@@ -0,0 +1,125 @@
+// Tách sơ đồ ghế của phòng chiếu ra khỏi collection Seat.
+// Trước đây ghế sơ đồ (không có showtimeId) và ghế của từng suất chiếu cùng nằm trong Seat;
+// script này chuyển ghế sơ đồ sang SeatLayout rồi xóa chúng khỏi Seat. Chạy lại nhiều lần vẫn an toàn.
+//
+//   npm run migrate:seat-layouts             # thực hiện
+//   npm run migrate:seat-layouts -- --dry-run  # chỉ in ra những gì sẽ thay đổi
+import mongoose from "mongoose";
+import { db } from "../patterns/singleton/DatabaseSingleton";
+import { Seat } from "../models/seat.model";
+import { Screen } from "../models/screen.model";
+import { Showtime } from "../models/showtime.model";
+import { SeatLayout, ILayoutSeat } from "../models/seatLayout.model";
+
+const dryRun = process.argv.includes("--dry-run");
+
+const toLayoutSeats = (seats: any[]): ILayoutSeat[] => {
+  const byKey = new Map<string, ILayoutSeat>();
+
+  seats.forEach((seat) => {
+    byKey.set(`${seat.row}-${seat.seatNumber}`, {
+      row: seat.row,
+      seatNumber: seat.seatNumber,
+      seatType: seat.seatType || "standard",
+      isActive: seat.isActive !== false,
+    });
+  });
+
+  return [...byKey.values()].sort((a, b) => a.row.localeCompare(b.row) || a.seatNumber - b.seatNumber);
+};
+
+const migrateScreen = async (screenId: mongoose.Types.ObjectId, layoutSeatDocs: any[]): Promise<string> => {
+  const existingLayout = await SeatLayout.exists({ screenId });
+  let seats = toLayoutSeats(layoutSeatDocs);
+  let source = "layout seats";
+
+  // Phòng chiếu không còn ghế sơ đồ: dựng lại sơ đồ từ suất chiếu gần nhất
+  if (!existingLayout && seats.length === 0) {
+    const latestShowtime = await Showtime.findOne({ screenId }).sort({ startTime: -1 }).select("_id");
+    if (latestShowtime) {
+      seats = toLayoutSeats(await Seat.find({ showtimeId: latestShowtime._id }).lean());
+      source = `showtime ${latestShowtime._id}`;
+    }
+  }
+
+  if (dryRun) {
+    return existingLayout
+      ? `layout exists, would remove ${layoutSeatDocs.length} layout seats`
+      : `would create layout with ${seats.length} seats from ${source}, remove ${layoutSeatDocs.length} layout seats`;
+  }
+
+  const session = await mongoose.startSession();
+  session.startTransaction();
+
+  try {
+    if (!existingLayout && seats.length > 0) {
+      await SeatLayout.create([{ screenId, seats }], { session });
+    }
+
+    if (layoutSeatDocs.length > 0) {
+      await Seat.deleteMany({ _id: { $in: layoutSeatDocs.map((seat) => seat._id) } }, { session });
+    }
+
+    await session.commitTransaction();
+  } catch (error) {
+    await session.abortTransaction();
+    throw error;
+  } finally {
+    session.endSession();
+  }
+
+  return existingLayout
+    ? `layout exists, removed ${layoutSeatDocs.length} layout seats`
+    : `created layout with ${seats.length} seats from ${source}, removed ${layoutSeatDocs.length} layout seats`;
+};
+
+const run = async (): Promise<void> => {
+  await db.connect();
+
+  try {
+    // Sơ đồ giờ có nhiều phiên bản cho mỗi phòng chiếu: bỏ index unique cũ theo screenId
+    if (!dryRun) {
+      await SeatLayout.syncIndexes();
+    }
+
+    // Ghế sơ đồ là ghế không gắn với suất chiếu nào
+    const layoutSeatDocs = await Seat.find({
+      $or: [{ showtimeId: { $exists: false } }, { showtimeId: null }],
+    }).lean();
+
+    const seatsByScreen = new Map<string, any[]>();
+    layoutSeatDocs.forEach((seat) => {
+      const key = seat.screenId.toString();
+      seatsByScreen.set(key, [...(seatsByScreen.get(key) || []), seat]);
+    });
+
+    const screens = await Screen.find().select("_id name");
+    const screenIds = new Set(screens.map((screen) => screen.id as string));
+
+    for (const screen of screens) {
+      const result = await migrateScreen(screen._id as mongoose.Types.ObjectId, seatsByScreen.get(screen.id) || []);
+      console.log(`Screen ${screen.name} (${screen.id}): ${result}`);
+    }
+
+    // Ghế sơ đồ của phòng chiếu đã bị xóa thì không còn dùng được
+    const orphanIds = layoutSeatDocs
+      .filter((seat) => !screenIds.has(seat.screenId.toString()))
+      .map((seat) => seat._id);
+
+    if (orphanIds.length > 0) {
+      if (!dryRun) {
+        await Seat.deleteMany({ _id: { $in: orphanIds } });
+      }
+      console.log(`${dryRun ? "Would remove" : "Removed"} ${orphanIds.length} layout seats of deleted screens`);
+    }
+
+    console.log(dryRun ? "Dry run finished, nothing was changed" : "Seat layout migration finished");
+  } finally {
+    await db.disconnect();
+  }
+};
+
+run().catch((error) => {
+  console.error("Seat layout migration failed:", error);
+  process.exit(1);
+});
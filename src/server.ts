@@ -8,6 +8,12 @@ import { EmailNotification, SMSNotification, PushNotification } from "./patterns
 import path from "path";
 import http from "http";
 import socketService from "./socket/socket.service";
+import { jobScheduler } from "./jobs/scheduler";
+import { seatCleanupJob } from "./jobs/seat-cleanup.job";
+import { bookingExpiryJob } from "./jobs/booking-expiry.job";
+import { showtimeReminderJob } from "./jobs/showtime-reminder.job";
+import { paymentGatewaySimulator } from "./gateway/simulator";
+import { PAYMENT_GATEWAY_SIMULATOR_ENABLED } from "./config/payment";
 
 const app = express();
 const PORT = process.env.PORT || 3000;
@@ -16,7 +22,12 @@ const server = http.createServer(app);
 
 socketService.initialize(server);
 
-app.use(express.json());
+app.use(express.json({
+  // Keep the raw body so payment webhooks can verify their signature
+  verify: (req, res, buf) => {
+    (req as express.Request).rawBody = buf;
+  }
+}));
 app.use(cookieParser());
 app.use(cors({
   origin: ['http://localhost:3000', 'http://localhost:5173', 'https://frontend-movies-xo0l.onrender.com'],
@@ -24,6 +35,10 @@ app.use(cors({
 }));
 app.use('/uploads', express.static(path.join(__dirname, 'uploads')));
 
+if (PAYMENT_GATEWAY_SIMULATOR_ENABLED) {
+  app.use('/gateway-simulator', paymentGatewaySimulator.createApp());
+}
+
 const emailNotifier = new EmailNotification();
 const smsNotifier = new SMSNotification();
 const pushNotifier = new PushNotification();
@@ -31,21 +46,39 @@ const pushNotifier = new PushNotification();
 notificationService.subscribe('booking.created', emailNotifier);
 notificationService.subscribe('booking.confirmed', emailNotifier);
 notificationService.subscribe('booking.cancelled', emailNotifier);
+notificationService.subscribe('booking.seat_cancelled', emailNotifier);
+notificationService.subscribe('booking.exchanged', emailNotifier);
+notificationService.subscribe('booking.expired', emailNotifier);
+notificationService.subscribe('booking.reminder', emailNotifier);
 notificationService.subscribe('payment.success', emailNotifier);
 notificationService.subscribe('payment.failed', emailNotifier);
 
 notificationService.subscribe('booking.created', smsNotifier);
 notificationService.subscribe('booking.confirmed', smsNotifier);
+notificationService.subscribe('booking.seat_cancelled', smsNotifier);
+notificationService.subscribe('booking.exchanged', smsNotifier);
 notificationService.subscribe('payment.success', smsNotifier);
+notificationService.subscribe('booking.reminder', smsNotifier);
 
 notificationService.subscribe('booking.confirmed', pushNotifier);
+notificationService.subscribe('booking.seat_cancelled', pushNotifier);
+notificationService.subscribe('booking.exchanged', pushNotifier);
+notificationService.subscribe('booking.expired', pushNotifier);
+notificationService.subscribe('booking.reminder', pushNotifier);
 notificationService.subscribe('payment.success', pushNotifier);
 notificationService.subscribe('payment.failed', pushNotifier);
 
+jobScheduler.register(seatCleanupJob);
+jobScheduler.register(bookingExpiryJob);
+jobScheduler.register(showtimeReminderJob);
+
 db.connect()
   .then(() => {
     app.use("/api", router);
 
+    // Every job runs once right away, so work left over from before a restart is picked up
+    jobScheduler.startAll();
+
     app.get("/health", (req, res) => {
       res.status(200).json({ status: "UP", message: "Cinema Booking API is running" });
     });
@@ -69,6 +102,7 @@ db.connect()
 
 process.on('SIGINT', async () => {
   console.log('Shutting down server...');
+  await jobScheduler.stopAll();
   await db.disconnect();
   server.close(() => {
     console.log('Server closed');
@@ -78,6 +112,7 @@ process.on('SIGINT', async () => {
 
 process.on('SIGTERM', async () => {
   console.log('Shutting down server...');
+  await jobScheduler.stopAll();
   await db.disconnect();
   server.close(() => {
     console.log('Server closed');
@@ -0,0 +1,124 @@
+// Hết hạn giữ ghế dựa trên expiresAt lưu trong database, an toàn khi khởi động lại và chạy nhiều instance
+
+import { IBooking } from '../models/booking.model';
+import { BookingRepository } from '../patterns/repository/BookingRepository';
+import { PaymentRepository, PAYMENT_TIMEOUT_ERROR } from '../patterns/repository/PaymentRepository';
+import { ShowtimeRepository } from '../patterns/repository/ShowtimeRepository';
+import { NotificationService, NotificationData } from '../patterns/observer/NotificationSystem';
+import { UserService } from './user.service';
+import { SeatService } from './seat.service';
+import { Seat } from '../models/seat.model';
+import socketService from '../socket/socket.service';
+import { toIdString } from '../utils/mongo';
+
+// Các mốc (phút) gửi sự kiện booking_expiring trước khi hết hạn
+const EXPIRY_WARNING_MINUTES = [1, 2, 5, 10];
+const EXPIRY_BATCH_SIZE = 100;
+
+export class BookingExpiryService {
+  private bookingRepository: BookingRepository;
+  private paymentRepository: PaymentRepository;
+  private showtimeRepository: ShowtimeRepository;
+  private userService: UserService;
+  private notificationService: NotificationService;
+
+  constructor() {
+    this.bookingRepository = new BookingRepository();
+    this.paymentRepository = new PaymentRepository();
+    this.showtimeRepository = new ShowtimeRepository();
+    this.userService = new UserService();
+    this.notificationService = NotificationService.getInstance();
+  }
+
+  async expireDueBookings(now: Date = new Date()): Promise<number> {
+    const dueBookings = await this.bookingRepository.findExpiredReservations(now, EXPIRY_BATCH_SIZE);
+    let expiredCount = 0;
+
+    for (const dueBooking of dueBookings) {
+      try {
+        // Another instance may already have expired (or the user paid for) this booking
+        const booking = await this.bookingRepository.expireBooking(toIdString(dueBooking._id), now);
+        if (!booking) {
+          continue;
+        }
+
+        expiredCount++;
+
+        // The gateway never answered in time; a late success webhook will find the booking gone and refund
+        if (booking.paymentStatus === 'processing') {
+          await this.paymentRepository.failOpenByBookingId(toIdString(booking._id), PAYMENT_TIMEOUT_ERROR);
+          await this.bookingRepository.releasePaymentLock(toIdString(booking._id), 'failed');
+        }
+
+        await this.announceExpiry(booking);
+      } catch (error) {
+        console.error(`Failed to expire booking ${toIdString(dueBooking._id)}:`, error);
+      }
+    }
+
+    return expiredCount;
+  }
+
+  async sendExpiryWarnings(now: Date = new Date()): Promise<number> {
+    const maxWarningMinutes = Math.max(...EXPIRY_WARNING_MINUTES);
+    const until = new Date(now.getTime() + maxWarningMinutes * 60 * 1000);
+    const expiringBookings = await this.bookingRepository.findExpiringReservations(now, until);
+    let warningCount = 0;
+
+    for (const booking of expiringBookings) {
+      const msLeft = new Date(booking.expiresAt!).getTime() - now.getTime();
+      const minutesLeft = EXPIRY_WARNING_MINUTES.find(minutes => msLeft <= minutes * 60 * 1000);
+      if (!minutesLeft) {
+        continue;
+      }
+
+      // Mark this and every larger threshold so a late scan never sends an older warning
+      const thresholds = EXPIRY_WARNING_MINUTES.filter(minutes => minutes >= minutesLeft);
+      const claimed = await this.bookingRepository.markExpiryWarningSent(toIdString(booking._id), minutesLeft, thresholds);
+      if (!claimed) {
+        continue;
+      }
+
+      try {
+        socketService.notifyBookingExpiring(toIdString(booking.userId), toIdString(booking._id), minutesLeft, booking.expiresAt!);
+        warningCount++;
+      } catch (wsError) {
+        console.error('WebSocket Error:', wsError);
+      }
+    }
+
+    return warningCount;
+  }
+
+  private async announceExpiry(booking: IBooking): Promise<void> {
+    const bookingId = toIdString(booking._id);
+    const userId = toIdString(booking.userId);
+    const showtimeId = toIdString(booking.showtimeId);
+
+    try {
+      socketService.notifyBookingExpired(userId, bookingId);
+      const releasedSeats = await Seat.find({ _id: { $in: booking.seats } }).select('_id row seatNumber status');
+      socketService.notifySeatsUpdated(showtimeId, SeatService.toSeatDiffs(releasedSeats, 'available', 'reserved'));
+    } catch (wsError) {
+      console.error('WebSocket Error:', wsError);
+    }
+
+    const user = await this.userService.getUserById(userId);
+    if (user) {
+      const showtime = await this.showtimeRepository.findById(showtimeId);
+
+      const notificationData: NotificationData = {
+        userId: user.id.toString(),
+        email: user.email,
+        phone: user.phone,
+        bookingId,
+        movieTitle: showtime?.movieId ? (showtime.movieId as any).title : 'Movie',
+        showtime: showtime?.startTime,
+        seats: booking.seats.map(seat => toIdString(seat)),
+        amount: booking.totalAmount
+      };
+
+      await this.notificationService.notify('booking.expired', notificationData);
+    }
+  }
+}
@@ -0,0 +1,123 @@
+// booking.service pulls in utils/jwt, which needs its secrets as soon as it is imported
+process.env.ACCESS_TOKEN_SECRET ||= "test-access-secret";
+process.env.REFRESH_TOKEN_SECRET ||= "test-refresh-secret";
+
+import { describe, test, mock, beforeEach, afterEach } from "node:test";
+import assert from "node:assert/strict";
+import { BookingService } from "./booking.service";
+import { IBooking, IRefund } from "../models/booking.model";
+import { PaymentStrategy } from "../patterns/strategy/PaymentStrategy";
+import { paymentStrategyRegistry } from "../patterns/strategy/PaymentStrategyRegistry";
+
+const CHARGED_AT = new Date("2026-03-01T10:00:00Z");
+
+const booking = (overrides: Record<string, unknown> = {}): IBooking =>
+  ({
+    paymentMethod: "credit_card",
+    transactionId: "cc_original",
+    bookedAt: CHARGED_AT,
+    charges: [
+      { paymentMethod: "credit_card", transactionId: "cc_original", amount: 200000, chargedAt: CHARGED_AT },
+      { paymentMethod: "paypal", transactionId: "pp_exchange", amount: 50000, chargedAt: CHARGED_AT },
+    ],
+    refunds: [],
+    exchanges: [],
+    ...overrides,
+  }) as unknown as IBooking;
+
+describe("BookingService.refundCharges", () => {
+  const service = new BookingService();
+  let gatewayRefunds: { method: string; transactionId: string; amount: number }[];
+  let failingTransactions: Set<string>;
+
+  const refundCharges = (target: IBooking, amount: number): Promise<IRefund[]> => service["refundCharges"](target, amount);
+
+  beforeEach(() => {
+    gatewayRefunds = [];
+    failingTransactions = new Set();
+    mock.method(paymentStrategyRegistry, "createStrategy", ((method: string) => ({
+      refund: async (transactionId: string, amount: number) => {
+        if (failingTransactions.has(transactionId)) {
+          return { success: false, message: "Gateway declined the refund" };
+        }
+        gatewayRefunds.push({ method, transactionId, amount });
+        return { success: true, message: "Refunded", transactionId: `r_${transactionId}` };
+      },
+    }) as unknown as PaymentStrategy) as any);
+  });
+
+  afterEach(() => mock.restoreAll());
+
+  test("refunds the newest charge first and the rest from the original payment", async () => {
+    const refunds = await refundCharges(booking(), 120000);
+
+    assert.deepEqual(gatewayRefunds, [
+      { method: "paypal", transactionId: "pp_exchange", amount: 50000 },
+      { method: "credit_card", transactionId: "cc_original", amount: 70000 },
+    ]);
+    assert.deepEqual(refunds.map(refund => [refund.transactionId, refund.amount, refund.success]), [
+      ["pp_exchange", 50000, true],
+      ["cc_original", 70000, true],
+    ]);
+  });
+
+  test("refunds only the newest charge when it covers the amount", async () => {
+    await refundCharges(booking(), 30000);
+
+    assert.deepEqual(gatewayRefunds, [{ method: "paypal", transactionId: "pp_exchange", amount: 30000 }]);
+  });
+
+  test("never refunds more than a charge captured, counting earlier refunds", async () => {
+    const target = booking({
+      refunds: [
+        { amount: 30000, transactionId: "pp_exchange", success: true, refundedAt: CHARGED_AT },
+        { amount: 10000, transactionId: "cc_original", success: false, refundedAt: CHARGED_AT },
+      ],
+    });
+
+    await refundCharges(target, 60000);
+
+    assert.deepEqual(gatewayRefunds, [
+      { method: "paypal", transactionId: "pp_exchange", amount: 20000 },
+      { method: "credit_card", transactionId: "cc_original", amount: 40000 },
+    ]);
+  });
+
+  test("records the part beyond everything captured as a failed refund", async () => {
+    const refunds = await refundCharges(booking(), 300000);
+
+    assert.equal(gatewayRefunds.reduce((sum, refund) => sum + refund.amount, 0), 250000);
+    const excess = refunds[refunds.length - 1];
+    assert.equal(excess.amount, 50000);
+    assert.equal(excess.success, false);
+    assert.equal(excess.transactionId, undefined);
+  });
+
+  test("keeps refunding other charges when one refund is declined", async () => {
+    failingTransactions.add("pp_exchange");
+
+    const refunds = await refundCharges(booking(), 120000);
+
+    assert.deepEqual(refunds.map(refund => [refund.transactionId, refund.amount, refund.success]), [
+      ["pp_exchange", 50000, false],
+      ["cc_original", 70000, true],
+    ]);
+  });
+
+  test("uses the exchange history of bookings paid before charges were recorded", async () => {
+    const legacy = booking({
+      charges: [],
+      exchanges: [
+        { priceDifference: 40000, paymentMethod: "paypal", transactionId: "pp_legacy", exchangedAt: CHARGED_AT },
+        { priceDifference: -20000, exchangedAt: CHARGED_AT },
+      ],
+    });
+
+    await refundCharges(legacy, 100000);
+
+    assert.deepEqual(gatewayRefunds, [
+      { method: "paypal", transactionId: "pp_legacy", amount: 40000 },
+      { method: "credit_card", transactionId: "cc_original", amount: 60000 },
+    ]);
+  });
+});
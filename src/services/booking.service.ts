@@ -1,15 +1,32 @@
 // Service Layer Pattern for Booking Business Logic
 
 import mongoose from 'mongoose';
-import { IBooking } from '../models/booking.model';
+import { IBooking, IRefund, IBookingCharge, IAppliedDiscount, IBookingLineItem, ILineItemDiscount, ILineItemFee, IInvoiceSnapshot } from '../models/booking.model';
 import { BookingRepository } from '../patterns/repository/BookingRepository';
+import { PaymentRepository, PAYMENT_TIMEOUT_ERROR } from '../patterns/repository/PaymentRepository';
+import { IPayment } from '../models/payment.model';
 import { ShowtimeRepository } from '../patterns/repository/ShowtimeRepository';
-import { Seat } from '../models/seat.model';
-import { TicketFactory } from '../patterns/factory/TicketFactory';
-import { PaymentProcessor } from '../patterns/strategy/PaymentStrategy';
-import { NotificationService, NotificationData } from '../patterns/observer/NotificationSystem';
+import { Seat, ISeat } from '../models/seat.model';
+import { IShowtime } from '../models/showtime.model';
+import { SeatService } from './seat.service';
+import { PromotionService, PricedTicket } from './promotion.service';
+import { PricingService, SeatPriceLine, BookingPriceBreakdown } from './pricing.service';
+import { CancellationPolicyService, CancellationQuote } from './cancellationPolicy.service';
+import { TicketService, ETicket } from './ticket.service';
+import { BookingDocumentService } from './bookingDocument.service';
+import { TicketFactory, AUDIENCE_CATEGORIES, DEFAULT_AUDIENCE_CATEGORY } from '../patterns/factory/TicketFactory';
+import { PaymentProcessor, PaymentResult } from '../patterns/strategy/PaymentStrategy';
+import { paymentStrategyRegistry } from '../patterns/strategy/PaymentStrategyRegistry';
+import { PAYMENT_CURRENCY } from '../config/payment';
+import { BOOKING_FEE_PER_SEAT, VAT_RATE } from '../config/pricing';
+import { INVOICE_NUMBER_PREFIX } from '../config/document';
+import { NotificationService, NotificationData, NotificationEvent } from '../patterns/observer/NotificationSystem';
 import { UserService } from './user.service';
 import socketService from '../socket/socket.service';
+import { HttpError } from '../utils/errors';
+import { toIdString } from '../utils/mongo';
+import { HOLD_POLICY, computeHoldExpiry, computeExtendedExpiry } from '../config/holdPolicy';
+import { HTTP_STATUS_CODES } from '../httpStatus/httpStatusCode';
 
 interface BookingRequest {
   userId: string;
@@ -17,18 +34,75 @@ interface BookingRequest {
   seatIds: string[];
   paymentMethod: string;
   paymentDetails: any;
+  promoCode?: string;
+  seatCategories?: Record<string, string>;
+}
+
+interface PaymentRequest {
+  bookingId: string;
+  userId: string;
+  paymentMethod: string;
+  paymentDetails: any;
+  idempotencyKey: string;
+}
+
+interface ExchangeRequest {
+  bookingId: string;
+  userId: string;
+  showtimeId?: string;
+  seatIds: string[];
+  seatCategories?: Record<string, string>;
+  paymentMethod?: string;
+  paymentDetails?: any;
+}
+
+// Event delivered by the payment gateway webhook
+export interface GatewayEvent {
+  id: string;
+  type: 'payment.succeeded' | 'payment.failed';
+  data: {
+    paymentId: string;
+    reference: string;
+    amount: number;
+    currency: string;
+    reason?: string;
+  };
+}
+
+export interface PaymentOutcome {
+  booking: IBooking;
+  payment: IPayment;
+  replayed: boolean;
+}
+
+export interface ExchangeOutcome {
+  booking: IBooking;
+  priceDifference: number;
+  refunds: IRefund[];
 }
 
 export class BookingService {
   private bookingRepository: BookingRepository;
+  private paymentRepository: PaymentRepository;
   private showtimeRepository: ShowtimeRepository;
   private userService: UserService;
+  private promotionService: PromotionService;
+  private pricingService: PricingService;
+  private cancellationPolicyService: CancellationPolicyService;
+  private ticketService: TicketService;
+  private bookingDocumentService: BookingDocumentService;
   private notificationService: NotificationService;
 
   constructor() {
     this.bookingRepository = new BookingRepository();
+    this.paymentRepository = new PaymentRepository();
     this.showtimeRepository = new ShowtimeRepository();
     this.userService = new UserService();
+    this.promotionService = new PromotionService();
+    this.pricingService = new PricingService();
+    this.cancellationPolicyService = new CancellationPolicyService();
+    this.ticketService = new TicketService();
+    this.bookingDocumentService = new BookingDocumentService();
     this.notificationService = NotificationService.getInstance();
   }
 
@@ -38,212 +112,509 @@ export class BookingService {
       throw new Error('Missing required booking information');
     }
 
+    if (!paymentStrategyRegistry.has(bookingRequest.paymentMethod)) {
+      throw new HttpError(`Unsupported payment method: ${bookingRequest.paymentMethod}`, HTTP_STATUS_CODES.BAD_REQUEST);
+    }
+
+    const seatIds = Array.from(new Set(bookingRequest.seatIds.map(id => id.toString())));
+
+    const showtime = await this.showtimeRepository.findById(bookingRequest.showtimeId);
+    if (!showtime) {
+      throw new Error('Failed to create booking: Showtime not found');
+    }
+    if (!showtime.isActive) {
+      throw new Error('Failed to create booking: This showtime is no longer available');
+    }
+    if (new Date(showtime.startTime) < new Date()) {
+      throw new Error('Failed to create booking: This showtime has already started');
+    }
+
+    const categories = this.resolveSeatCategories(seatIds, bookingRequest.seatCategories, showtime);
+    await this.assertSeatGroupsComplete(bookingRequest.showtimeId, seatIds);
+
     const session = await mongoose.startSession();
     session.startTransaction();
 
+    let booking: IBooking;
+    let seats: ISeat[] = [];
+    let lineItems: IBookingLineItem[] = [];
+    let subtotalAmount = 0;
+    let feeAmount = 0;
+    let totalAmount = 0;
+    let discount: IAppliedDiscount | undefined;
+
     try {
-      const showtime = await this.showtimeRepository.findById(bookingRequest.showtimeId);
-      if (!showtime) {
-        throw new Error('Showtime not found');
-      }
-      if (!showtime.isActive) {
-        throw new Error('This showtime is no longer available');
-      }
+      seats = await Seat.find({
+        _id: { $in: seatIds },
+        showtimeId: bookingRequest.showtimeId
+      }).session(session);
 
-      if (new Date(showtime.startTime) < new Date()) {
-        throw new Error('This showtime has already started');
-      }
+      const { priceLines, tickets } = await this.priceTickets(showtime, seatIds, seats, categories);
 
-      const seatAvailability = await Seat.find({
-        _id: { $in: bookingRequest.seatIds },
-        showtimeId: bookingRequest.showtimeId,
-        status: { $ne: 'available' }
-      });
+      subtotalAmount = tickets.reduce((sum, item) => sum + item.ticket.price, 0);
+      const categoryPrices = tickets.map(item => item.ticket.price);
 
-      if (seatAvailability.length > 0) {
-        throw new Error('One or more selected seats are not available');
-      }
-
-      // Calculate total amount
-      let totalAmount = 0;
-      for (const seatId of bookingRequest.seatIds) {
-        const seatData = await Seat.findById(seatId);
-        const seatType = seatData ? seatData.seatType : 'standard';
-        
-        const ticket = TicketFactory.createTicket(
-          seatType, 
-          showtime.price[seatType as keyof typeof showtime.price]
+      // Apply the promo code through the tickets' own discount rules
+      if (bookingRequest.promoCode) {
+        const promotion = await this.promotionService.findApplicablePromotion(
+          bookingRequest.promoCode,
+          showtime,
+          tickets,
+          subtotalAmount
         );
-        
-        totalAmount += ticket.price;
+        await this.promotionService.redeem(promotion, bookingRequest.userId, session);
+
+        discount = {
+          promotionId: promotion._id as mongoose.Types.ObjectId,
+          code: promotion.code,
+          discountType: promotion.discountType,
+          discountValue: promotion.discountValue,
+          amount: this.promotionService.applyToTickets(promotion, tickets),
+          refundable: promotion.refundable
+        };
       }
 
-      const booking = await this.bookingRepository.create({
+      lineItems = this.buildLineItems(seatIds, priceLines, tickets, categoryPrices, discount?.code);
+
+      feeAmount = lineItems.reduce((sum, item) => sum + item.fees.reduce((fees, fee) => fees + fee.amount, 0), 0);
+      totalAmount = lineItems.reduce((sum, item) => sum + item.finalPrice, 0);
+
+      // Hold every seat inside this transaction; a lost seat aborts the whole hold
+      booking = await this.bookingRepository.create({
         userId: new mongoose.Types.ObjectId(bookingRequest.userId),
         showtimeId: new mongoose.Types.ObjectId(bookingRequest.showtimeId),
-        seats: bookingRequest.seatIds.map(id => new mongoose.Types.ObjectId(id)),
+        seats: seatIds.map(id => new mongoose.Types.ObjectId(id)),
+        lineItems,
+        subtotalAmount,
+        feeAmount,
         totalAmount,
+        discount,
         paymentStatus: 'pending',
         bookingStatus: 'reserved',
-        paymentMethod: bookingRequest.paymentMethod,
-        bookedAt: new Date()
-      });
+        paymentMethod: bookingRequest.paymentMethod.toLowerCase(),
+        bookedAt: new Date(),
+        expiresAt: computeHoldExpiry(showtime),
+        extensionCount: 0
+      }, session);
 
       await session.commitTransaction();
-
-      try {
-        if (booking && booking._id) {
-          const bookingId: string = typeof booking._id === 'object' 
-            ? booking._id.toString() 
-            : String(booking._id);
-            
-            socketService.startBookingTimer(bookingRequest.userId, bookingId);
-            socketService.notifySeatsUpdated(bookingRequest.showtimeId);
-        }
-      } catch (wsError) {
-        console.error('WebSocket Error:', wsError);
-      }
-
-      const user = await this.userService.getUserById(bookingRequest.userId);
-      if (user) {
-        const bookingId: string = booking && booking._id 
-          ? (typeof booking._id === 'object' ? booking._id.toString() : String(booking._id)) 
-          : '';
-          
-        const notificationData: NotificationData = {
-          userId: user.id.toString(),
-          email: user.email,
-          phone: user.phone,
-          bookingId: bookingId,
-          movieTitle: showtime.movieId ? (showtime.movieId as any).title : 'Movie',
-          theaterName: showtime.screenId ? 
-            ((showtime.screenId as any).theaterId ? (showtime.screenId as any).theaterId.name : 'Theater') 
-            : 'Theater',
-          showtime: showtime.startTime,
-          seats: bookingRequest.seatIds,
-          amount: totalAmount
-        };
-
-        await this.notificationService.notify('booking.created', notificationData);
-      }
-
-      return booking;
     } catch (error: any) {
       await session.abortTransaction();
+      if (error instanceof HttpError) {
+        throw error;
+      }
       throw new Error(`Failed to create booking: ${error.message}`);
     } finally {
       session.endSession();
     }
+
+    const bookingId: string = booking._id ? String(booking._id) : '';
+
+    try {
+      if (bookingId) {
+        socketService.notifyBookingReserved(bookingRequest.userId, bookingId, booking.expiresAt!);
+        socketService.notifySeatsUpdated(bookingRequest.showtimeId, SeatService.toSeatDiffs(seats, 'reserved'));
+      }
+    } catch (wsError) {
+      console.error('WebSocket Error:', wsError);
+    }
+
+    const user = await this.userService.getUserById(bookingRequest.userId);
+    if (user) {
+      const notificationData: NotificationData = {
+        userId: user.id.toString(),
+        email: user.email,
+        phone: user.phone,
+        bookingId: bookingId,
+        movieTitle: showtime.movieId ? (showtime.movieId as any).title : 'Movie',
+        theaterName: showtime.screenId ?
+          ((showtime.screenId as any).theaterId ? (showtime.screenId as any).theaterId.name : 'Theater')
+          : 'Theater',
+        showtime: showtime.startTime,
+        seats: seatIds,
+        amount: totalAmount
+      };
+
+      await this.notificationService.notify('booking.created', notificationData);
+    }
+
+    return booking;
+  }
+
+  // Audience category per seat (the given default, else adult), checked against the category rules
+  private resolveSeatCategories(
+    seatIds: string[],
+    seatCategories: Record<string, string> = {},
+    showtime: IShowtime,
+    defaults: string[] = []
+  ): string[] {
+    if (typeof seatCategories !== 'object' || Array.isArray(seatCategories)) {
+      throw new HttpError('seatCategories must map seat IDs to ticket categories', HTTP_STATUS_CODES.BAD_REQUEST);
+    }
+    const unknownSeats = Object.keys(seatCategories).filter(seatId => !seatIds.includes(seatId));
+    if (unknownSeats.length > 0) {
+      throw new HttpError('Ticket categories given for seats that are not in this booking', HTTP_STATUS_CODES.BAD_REQUEST, { seatIds: unknownSeats });
+    }
+
+    const categories = seatIds.map((seatId, index) =>
+      (seatCategories[seatId] || defaults[index] || DEFAULT_AUDIENCE_CATEGORY).toLowerCase()
+    );
+    const localStart = this.pricingService.getLocalTime(new Date(showtime.startTime));
+    const categoryErrors = TicketFactory.checkAudienceEligibility(categories, {
+      isWeekday: localStart.dayOfWeek >= 1 && localStart.dayOfWeek <= 5
+    });
+    if (categoryErrors.length > 0) {
+      throw new HttpError('Invalid ticket categories', HTTP_STATUS_CODES.BAD_REQUEST, { errors: categoryErrors });
+    }
+
+    return categories;
   }
 
-  async processPayment(bookingId: string, paymentProcessor: PaymentProcessor, paymentDetails: any): Promise<IBooking> {
+  // Calculate seat prices from the showtime price plus booking-time pricing rules
+  private async priceTickets(
+    showtime: IShowtime,
+    seatIds: string[],
+    seats: ISeat[],
+    categories: string[]
+  ): Promise<{ priceLines: SeatPriceLine[]; tickets: PricedTicket[] }> {
+    const seatTypes = seatIds.map(seatId => {
+      const seatData = seats.find(seat => seat.id === seatId);
+      return seatData ? seatData.seatType : 'standard';
+    });
+    const priceLines = await this.pricingService.priceSeats(showtime, seatTypes);
+
+    const tickets: PricedTicket[] = priceLines.map((line, index) => ({
+      seatType: line.seatType,
+      ticket: TicketFactory.createTicket(line.seatType, line.price, categories[index])
+    }));
+
+    return { priceLines, tickets };
+  }
+
+  // Snapshot how every seat was priced, so later price changes and partial refunds can be explained
+  private buildLineItems(
+    seatIds: string[],
+    priceLines: SeatPriceLine[],
+    tickets: PricedTicket[],
+    categoryPrices: number[],
+    promoCode?: string
+  ): IBookingLineItem[] {
+    return seatIds.map((id, index) => {
+      const priceLine = priceLines[index];
+      const ticket = tickets[index].ticket;
+      const discounts: ILineItemDiscount[] = [];
+      const fees: ILineItemFee[] = [];
+
+      if (categoryPrices[index] < priceLine.price) {
+        discounts.push({ source: 'category', code: ticket.category, amount: priceLine.price - categoryPrices[index] });
+      }
+      if (promoCode && ticket.price < categoryPrices[index]) {
+        discounts.push({ source: 'promotion', code: promoCode, amount: categoryPrices[index] - ticket.price });
+      }
+      if (BOOKING_FEE_PER_SEAT > 0) {
+        fees.push({ name: 'booking_fee', amount: BOOKING_FEE_PER_SEAT });
+      }
+
+      return {
+        seat: new mongoose.Types.ObjectId(id),
+        seatType: priceLine.seatType,
+        category: ticket.category,
+        basePrice: priceLine.basePrice,
+        adjustments: priceLine.adjustments.map(adjustment => ({
+          ruleId: new mongoose.Types.ObjectId(adjustment.ruleId),
+          name: adjustment.name,
+          stage: adjustment.stage,
+          amount: adjustment.amount
+        })),
+        seatPrice: priceLine.price,
+        discounts,
+        fees,
+        finalPrice: ticket.price + fees.reduce((sum, fee) => sum + fee.amount, 0)
+      };
+    });
+  }
+
+  async processPayment(paymentRequest: PaymentRequest): Promise<PaymentOutcome> {
+    const { bookingId, userId, paymentMethod, paymentDetails, idempotencyKey } = paymentRequest;
+
+    const paymentStrategy = paymentStrategyRegistry.createStrategy(paymentMethod);
+    if (!paymentStrategy) {
+      throw new HttpError(`Unsupported payment method: ${paymentMethod}`, HTTP_STATUS_CODES.BAD_REQUEST);
+    }
+
+    const detailErrors = paymentStrategyRegistry.validateDetails(paymentMethod, paymentDetails, PAYMENT_CURRENCY);
+    if (detailErrors.length > 0) {
+      throw new HttpError('Invalid payment details', HTTP_STATUS_CODES.BAD_REQUEST, { errors: detailErrors });
+    }
+
+    // A retried request answers with the result of the attempt it already made
+    const previousPayment = await this.paymentRepository.findByIdempotencyKey(userId, idempotencyKey);
+    if (previousPayment) {
+      return await this.replayPayment(previousPayment, bookingId);
+    }
+
     const booking = await this.bookingRepository.findById(bookingId);
     if (!booking) {
-      throw new Error('Booking not found');
+      throw new HttpError('Booking not found', HTTP_STATUS_CODES.NOT_FOUND);
+    }
+
+    if (toIdString(booking.userId) !== userId) {
+      throw new HttpError('Unauthorized: You cannot pay for this booking', HTTP_STATUS_CODES.FORBIDDEN);
     }
 
     if (booking.paymentStatus === 'completed') {
-      throw new Error('Payment has already been processed for this booking');
+      throw new HttpError('Payment has already been processed for this booking', HTTP_STATUS_CODES.CONFLICT);
     }
 
+    // Only one attempt at a time may charge a booking
+    const lockedBooking = await this.bookingRepository.lockForPayment(bookingId, new Date());
+    if (!lockedBooking) {
+      throw new HttpError(
+        'Booking cannot be paid: a payment is already in progress or the booking is no longer reserved',
+        HTTP_STATUS_CODES.CONFLICT
+      );
+    }
+
+    const payment = await this.paymentRepository.create({
+      bookingId: booking._id as mongoose.Types.ObjectId,
+      userId: new mongoose.Types.ObjectId(userId),
+      idempotencyKey,
+      strategy: paymentMethod.toLowerCase(),
+      amount: booking.totalAmount,
+      currency: PAYMENT_CURRENCY,
+      status: 'processing'
+    });
+
+    if (!payment) {
+      // A concurrent request with the same key got there first
+      await this.bookingRepository.releasePaymentLock(bookingId, booking.paymentStatus);
+      const racedPayment = await this.paymentRepository.findByIdempotencyKey(userId, idempotencyKey);
+      return await this.replayPayment(racedPayment!, bookingId);
+    }
+
+    const paymentId = toIdString(payment._id);
+
+    let paymentResult: PaymentResult;
     try {
       // Process the payment using Strategy Pattern
-      const paymentResult = await paymentProcessor.processPayment(
+      const paymentProcessor = new PaymentProcessor(paymentStrategy);
+      paymentResult = await paymentProcessor.processPayment(
         booking.totalAmount,
-        'VND', // Currency - would be configurable in a real implementation
-        paymentDetails
+        PAYMENT_CURRENCY,
+        { ...paymentDetails, reference: paymentId }
       );
+    } catch (error: any) {
+      paymentResult = { success: false, message: error.message };
+    }
 
-      if (!paymentResult.success) {
-        // Update booking with failed payment status
-        await this.bookingRepository.update(bookingId, {
-          paymentStatus: 'failed',
-        });
+    if (!paymentResult.success) {
+      const failedPayment = await this.failPayment(payment, booking, paymentResult.message);
 
-        throw new Error(`Payment failed: ${paymentResult.message}`);
-      }
+      throw new HttpError(
+        `Payment processing failed: ${paymentResult.message}`,
+        HTTP_STATUS_CODES.PAYMENT_REQUIRED,
+        { payment: failedPayment }
+      );
+    }
 
-      // Stop the WebSocket booking timer
-      try {
-        if (booking.userId) {
-          const userId: string = typeof booking.userId === 'object'
-            ? booking.userId.toString()
-            : String(booking.userId);
-            
-            socketService.stopBookingTimer(userId, bookingId);
-        }
-      } catch (wsError) {
-        console.error('WebSocket Error:', wsError);
-      }
+    // Redirect-style gateways answer later through the payment webhook; the booking stays locked until then
+    if (paymentResult.pending) {
+      const pendingPayment = await this.paymentRepository.markPending(
+        paymentId,
+        paymentResult.transactionId!,
+        paymentResult.checkoutUrl
+      );
+      return { booking: lockedBooking, payment: pendingPayment!, replayed: false };
+    }
 
-      // Update booking with successful payment
-      const updatedBooking = await this.bookingRepository.update(bookingId, {
-        paymentStatus: 'completed',
-        bookingStatus: 'confirmed',
-        transactionId: paymentResult.transactionId
-      });
+    const settlement = await this.confirmPayment(payment, booking, paymentResult.transactionId);
 
-      // Confirm the booking (update seat statuses)
-      await this.bookingRepository.confirmBooking(bookingId);
+    if (!settlement.booking) {
+      throw new HttpError(
+        'Booking is no longer reserved; the payment has been refunded',
+        HTTP_STATUS_CODES.CONFLICT,
+        { payment: settlement.payment, refund: settlement.refund }
+      );
+    }
+
+    return { booking: settlement.booking, payment: settlement.payment!, replayed: false };
+  }
+
+  // Apply the final outcome reported by the payment gateway webhook; duplicate deliveries are ignored
+  async handleGatewayEvent(event: GatewayEvent): Promise<IPayment | null> {
+    const payment = await this.paymentRepository.findById(event.data.reference);
+    if (!payment) {
+      throw new HttpError('Payment not found', HTTP_STATUS_CODES.NOT_FOUND);
+    }
+
+    // A capture reported after we stopped waiting still has to be settled (and refunded, as the booking is gone)
+    const timedOut = payment.status === 'failed' && payment.error === PAYMENT_TIMEOUT_ERROR;
+    if (payment.transactionId !== event.data.paymentId) {
+      return null;
+    }
+    if (payment.status !== 'pending' && !(timedOut && event.type === 'payment.succeeded')) {
+      return null;
+    }
+
+    const booking = await this.bookingRepository.findById(toIdString(payment.bookingId));
+    if (!booking) {
+      throw new HttpError('Booking not found', HTTP_STATUS_CODES.NOT_FOUND);
+    }
+
+    if (event.type === 'payment.failed') {
+      return await this.failPayment(payment, booking, event.data.reason || 'Payment declined by gateway');
+    }
+
+    if (event.data.amount !== payment.amount || event.data.currency !== payment.currency) {
+      // Never confirm a booking for a different amount than we asked for
+      booking.paymentMethod = payment.strategy;
+      booking.transactionId = payment.transactionId;
+      const refund = await this.refundPayment(booking, event.data.amount);
+      // The booking stays locked for payment until failPayment releases it
+      await this.bookingRepository.recordRefund(toIdString(booking._id), refund);
+      this.alertRefundFailed(toIdString(booking._id), refund);
+      return await this.failPayment(payment, booking, 'Captured amount does not match the payment');
+    }
+
+    const settlement = await this.confirmPayment(payment, booking, event.data.paymentId, timedOut);
+    return settlement.payment;
+  }
+
+  // Record a failed attempt and unlock the booking so the customer can retry
+  private async failPayment(payment: IPayment, booking: IBooking, message: string): Promise<IPayment | null> {
+    const failedPayment = await this.paymentRepository.markFailed(toIdString(payment._id), message);
+    if (!failedPayment) {
+      return null;
+    }
+
+    await this.bookingRepository.releasePaymentLock(toIdString(booking._id), 'failed');
+    await this.notifyPayment('payment.failed', booking);
+
+    return failedPayment;
+  }
+
+  // Record a successful charge and confirm the booking; refunds the charge if the booking is gone by now
+  private async confirmPayment(
+    payment: IPayment,
+    booking: IBooking,
+    transactionId?: string,
+    allowTimedOut: boolean = false
+  ): Promise<{ booking: IBooking | null; payment: IPayment | null; refund?: IRefund }> {
+    const bookingId = toIdString(booking._id);
+    const succeededPayment = await this.paymentRepository.markSucceeded(toIdString(payment._id), transactionId, allowTimedOut);
+    if (!succeededPayment) {
+      return { booking: null, payment: null };
+    }
+
+    const confirmedBooking = await this.bookingRepository.completePayment(bookingId, payment.strategy, transactionId, payment.amount);
+
+    if (!confirmedBooking) {
+      // The booking expired or was cancelled while we were charging: give the money back
+      booking.paymentMethod = payment.strategy;
+      booking.transactionId = transactionId;
+      const refund = await this.refundPayment(booking, payment.amount);
+      await this.bookingRepository.recordRefund(bookingId, refund, refund.success ? 'refunded' : 'refund_failed');
+      this.alertRefundFailed(bookingId, refund);
+
+      return { booking: null, payment: succeededPayment, refund };
+    }
+
+    // The invoice is numbered and its content fixed at payment time; a failure here must not undo the payment
+    try {
+      await this.issueInvoice(bookingId);
+    } catch (invoiceError: any) {
+      console.error(`Error issuing invoice for booking ${bookingId}:`, invoiceError.message);
+    }
+
+    // Tell the client its booking countdown has stopped
+    try {
+      socketService.notifyBookingTimerStopped(toIdString(booking.userId), bookingId);
 
       // Notify about seats update
-      try {
-        if (booking.showtimeId) {
-          const showtimeId: string = typeof booking.showtimeId === 'object'
-            ? booking.showtimeId.toString()
-            : String(booking.showtimeId);
-            
-            socketService.notifySeatsUpdated(showtimeId);
-        }
-      } catch (wsError) {
-        console.error('WebSocket Error:', wsError);
-      }
+      socketService.notifySeatsUpdated(
+        toIdString(booking.showtimeId),
+        SeatService.toSeatDiffs(booking.seats as unknown as ISeat[], 'booked')
+      );
+    } catch (wsError) {
+      console.error('WebSocket Error:', wsError);
+    }
 
-      // Send notification
-      const showtime = await this.showtimeRepository.findById(booking.showtimeId.toString());
-      const user = await this.userService.getUserById(booking.userId.toString());
-      
-      if (user) {
-        const bookingIdStr: string = booking._id ? 
-          (typeof booking._id === 'object' ? booking._id.toString() : String(booking._id)) 
-          : '';
-            
-        const notificationData: NotificationData = {
-          userId: user.id.toString(),
-          email: user.email,
-          phone: user.phone,
-          bookingId: bookingIdStr,
-          movieTitle: showtime?.movieId ? (showtime.movieId as any).title : 'Movie',
-          amount: booking.totalAmount,
-          transactionId: paymentResult.transactionId
-        };
+    await this.notifyPayment('payment.success', booking, transactionId);
+    await this.notifyPayment('booking.confirmed', booking, transactionId, {
+      tickets: await this.issueTicketsForNotification(bookingId)
+    });
 
-        await this.notificationService.notify('payment.success', notificationData);
-        await this.notificationService.notify('booking.confirmed', notificationData);
-      }
+    return { booking: confirmedBooking, payment: succeededPayment };
+  }
 
-      return updatedBooking!;
-    } catch (error: any) {
-      // Send failed payment notification
-      const user = await this.userService.getUserById(booking.userId.toString());
-      if (user) {
-        const bookingIdStr: string = booking._id ? 
-          (typeof booking._id === 'object' ? booking._id.toString() : String(booking._id)) 
-          : '';
-            
-        const notificationData: NotificationData = {
-          userId: user.id.toString(),
-          email: user.email,
-          phone: user.phone,
-          bookingId: bookingIdStr,
-          amount: booking.totalAmount
-        };
+  async getBookingPayments(bookingId: string, userId: string, role?: string): Promise<IPayment[]> {
+    const booking = await this.bookingRepository.findById(bookingId);
+    if (!booking) {
+      throw new HttpError('Booking not found', HTTP_STATUS_CODES.NOT_FOUND);
+    }
 
-        await this.notificationService.notify('payment.failed', notificationData);
-      }
+    if (role !== 'admin' && toIdString(booking.userId) !== userId) {
+      throw new HttpError('Unauthorized: You cannot view this booking', HTTP_STATUS_CODES.FORBIDDEN);
+    }
+
+    return await this.paymentRepository.findByBookingId(bookingId);
+  }
+
+  // Answer a retried payment request with the outcome of the original attempt
+  private async replayPayment(payment: IPayment, bookingId: string): Promise<PaymentOutcome> {
+    if (toIdString(payment.bookingId) !== bookingId) {
+      throw new HttpError(
+        'Idempotency-Key has already been used for a different booking',
+        HTTP_STATUS_CODES.UNPROCESSABLE_ENTITY
+      );
+    }
+
+    if (payment.status === 'pending') {
+      const pendingBooking = await this.bookingRepository.findById(bookingId);
+      return { booking: pendingBooking!, payment, replayed: true };
+    }
+
+    if (payment.status === 'processing') {
+      throw new HttpError('A payment with this Idempotency-Key is still being processed', HTTP_STATUS_CODES.CONFLICT);
+    }
 
-      throw new Error(`Payment processing failed: ${error.message}`);
+    if (payment.status === 'failed') {
+      throw new HttpError(
+        `Payment processing failed: ${payment.error}`,
+        HTTP_STATUS_CODES.PAYMENT_REQUIRED,
+        { payment }
+      );
     }
+
+    const booking = await this.bookingRepository.findById(bookingId);
+    return { booking: booking!, payment, replayed: true };
+  }
+
+  private async notifyPayment(
+    event: NotificationEvent,
+    booking: IBooking,
+    transactionId?: string,
+    extra: Partial<NotificationData> = {}
+  ): Promise<void> {
+    const user = await this.userService.getUserById(toIdString(booking.userId));
+    if (!user) {
+      return;
+    }
+
+    const showtime = await this.showtimeRepository.findById(toIdString(booking.showtimeId));
+
+    const notificationData: NotificationData = {
+      userId: user.id.toString(),
+      email: user.email,
+      phone: user.phone,
+      bookingId: toIdString(booking._id),
+      movieTitle: showtime?.movieId ? (showtime.movieId as any).title : 'Movie',
+      amount: booking.totalAmount,
+      transactionId,
+      ...extra
+    };
+
+    await this.notificationService.notify(event, notificationData);
   }
 
   async cancelBooking(bookingId: string, userId: string): Promise<IBooking> {
@@ -253,61 +624,64 @@ export class BookingService {
     }
 
     // Verify user owns this booking
-    if (booking.userId.toString() !== userId) {
+    if (toIdString(booking.userId) !== userId) {
       throw new Error('Unauthorized: You cannot cancel this booking');
     }
 
     // Check if booking can be cancelled (e.g., not too close to showtime)
-    const showtime = await this.showtimeRepository.findById(booking.showtimeId.toString());
+    const showtime = await this.showtimeRepository.findById(toIdString(booking.showtimeId));
     if (!showtime) {
       throw new Error('Showtime information not available');
     }
 
-    // Example: Cannot cancel within 3 hours of showtime
-    const cancellationDeadline = new Date(showtime.startTime);
-    cancellationDeadline.setHours(cancellationDeadline.getHours() - 3);
+    if (booking.paymentStatus === 'processing') {
+      throw new HttpError('Cannot cancel booking while its payment is being processed', HTTP_STATUS_CODES.CONFLICT);
+    }
 
-    if (new Date() > cancellationDeadline) {
-      throw new Error('Cannot cancel booking less than 3 hours before showtime');
+    // The refund is exactly what the cancellation quote promises
+    const quote = await this.cancellationPolicyService.quote(booking, showtime);
+    if (!quote.allowed) {
+      throw new HttpError(quote.reason!, HTTP_STATUS_CODES.BAD_REQUEST, { quote });
     }
 
-    // Process refund if payment was made
-    if (booking.paymentStatus === 'completed' && booking.transactionId) {
-      // In a real implementation, this would use the PaymentProcessor to issue a refund
-      // For this example, we'll just mark it as refunded
-      await this.bookingRepository.update(bookingId, {
-        paymentStatus: 'refunded'
-      });
+    // Cancel the booking first so a concurrent cancellation can never refund twice
+    let cancelledBooking = await this.bookingRepository.cancelBooking(bookingId);
+    if (!cancelledBooking) {
+      throw new Error('Booking is already cancelled');
     }
 
-    // Stop the WebSocket booking timer
+    // Tell the client its booking countdown has stopped, now that the cancellation is saved
     try {
-      socketService.stopBookingTimer(userId, bookingId);
+      socketService.notifyBookingTimerStopped(userId, bookingId);
     } catch (wsError) {
       console.error('WebSocket Error:', wsError);
     }
 
-    // Cancel the booking
-    const cancelledBooking = await this.bookingRepository.cancelBooking(bookingId);
-    if (!cancelledBooking) {
-      throw new Error('Failed to cancel booking');
+    // Process refund if payment was made and the policy refunds any of it
+    let refunds: IRefund[] = [];
+    if (quote.refundableAmount > 0) {
+      refunds = await this.refundCharges(booking, quote.refundableAmount);
+      const refundStatus = refunds.every(refund => refund.success) ? 'refunded' : 'refund_failed';
+      cancelledBooking = await this.bookingRepository.recordRefund(bookingId, refunds, refundStatus) || cancelledBooking;
+
+      // Seats are still released; a failed refund is left for an admin to settle
+      refunds.forEach(refund => this.alertRefundFailed(bookingId, refund));
     }
 
     // Notify about seats update
     try {
       if (booking.showtimeId) {
-        const showtimeId: string = typeof booking.showtimeId === 'object'
-          ? booking.showtimeId.toString()
-          : String(booking.showtimeId);
-          
-          socketService.notifySeatsUpdated(showtimeId);
+        socketService.notifySeatsUpdated(
+          toIdString(booking.showtimeId),
+          SeatService.toSeatDiffs(booking.seats as unknown as ISeat[], 'available')
+        );
       }
     } catch (wsError) {
       console.error('WebSocket Error:', wsError);
     }
 
     // Send notification
-    const user = await this.userService.getUserById(booking.userId.toString());
+    const user = await this.userService.getUserById(toIdString(booking.userId));
     if (user) {
       const bookingIdStr: string = booking._id ? 
         (typeof booking._id === 'object' ? booking._id.toString() : String(booking._id)) 
@@ -322,7 +696,8 @@ export class BookingService {
         theaterName: showtime.screenId ? 
           ((showtime.screenId as any).theaterId ? (showtime.screenId as any).theaterId.name : 'Theater') 
           : 'Theater',
-        showtime: showtime.startTime
+        showtime: showtime.startTime,
+        ...this.summarizeRefunds(refunds)
       };
 
       await this.notificationService.notify('booking.cancelled', notificationData);
@@ -331,6 +706,706 @@ export class BookingService {
     return cancelledBooking;
   }
 
+  // Drop a single seat from a booking, refunding what that seat cost
+  async cancelSeat(bookingId: string, seatId: string, userId: string): Promise<{ booking: IBooking; refunds: IRefund[] }> {
+    const booking = await this.bookingRepository.findById(bookingId);
+    if (!booking) {
+      throw new HttpError('Booking not found', HTTP_STATUS_CODES.NOT_FOUND);
+    }
+
+    if (toIdString(booking.userId) !== userId) {
+      throw new HttpError('Unauthorized: You cannot cancel this booking', HTTP_STATUS_CODES.FORBIDDEN);
+    }
+
+    if (booking.bookingStatus === 'cancelled') {
+      throw new HttpError('Booking is already cancelled', HTTP_STATUS_CODES.CONFLICT);
+    }
+
+    const seat = (booking.seats as unknown as ISeat[]).find(bookedSeat => toIdString(bookedSeat) === seatId);
+    if (!seat) {
+      throw new HttpError('Seat is not part of this booking', HTTP_STATUS_CODES.NOT_FOUND);
+    }
+
+    if (booking.seats.length < 2) {
+      throw new HttpError('This is the last seat of the booking; cancel the whole booking instead', HTTP_STATUS_CODES.BAD_REQUEST);
+    }
+
+    // Half of a couple seat cannot be resold on its own
+    if (seat.groupId) {
+      throw new HttpError('Linked seats (such as couple seats) can only be cancelled together with the whole booking', HTTP_STATUS_CODES.BAD_REQUEST, { groupId: seat.groupId });
+    }
+
+    await this.assertRemainingSeatsBookable(booking, seatId);
+
+    if (booking.paymentStatus === 'processing') {
+      throw new HttpError('Cannot cancel seats while the payment is being processed', HTTP_STATUS_CODES.CONFLICT);
+    }
+
+    const showtime = await this.showtimeRepository.findById(toIdString(booking.showtimeId));
+    if (!showtime) {
+      throw new Error('Showtime information not available');
+    }
+
+    const quote = await this.cancellationPolicyService.quote(booking, showtime, [seatId]);
+    if (!quote.allowed) {
+      throw new HttpError(quote.reason!, HTTP_STATUS_CODES.BAD_REQUEST, { quote });
+    }
+
+    // Bookings made before line items existed split the total evenly
+    const lineItem = (booking.lineItems || []).find(item => toIdString(item.seat) === seatId);
+    const seatAmount = lineItem ? lineItem.finalPrice : Math.round(booking.totalAmount / booking.seats.length);
+
+    let updatedBooking = await this.bookingRepository.removeSeat(bookingId, seatId, seatAmount);
+    if (!updatedBooking) {
+      throw new HttpError('Seat has already been cancelled', HTTP_STATUS_CODES.CONFLICT);
+    }
+
+    let refunds: IRefund[] = [];
+    if (quote.refundableAmount > 0) {
+      refunds = (await this.refundCharges(booking, quote.refundableAmount))
+        .map(refund => ({ ...refund, seat: new mongoose.Types.ObjectId(seatId) }));
+      // The booking itself stays paid; a failed refund is recorded on the refund entry only
+      updatedBooking = await this.bookingRepository.recordRefund(bookingId, refunds) || updatedBooking;
+
+      refunds.forEach(refund => this.alertRefundFailed(bookingId, refund, { seatId }));
+    }
+
+    // Notify about seats update
+    try {
+      socketService.notifySeatsUpdated(
+        toIdString(booking.showtimeId),
+        SeatService.toSeatDiffs([seat], 'available')
+      );
+    } catch (wsError) {
+      console.error('WebSocket Error:', wsError);
+    }
+
+    const user = await this.userService.getUserById(userId);
+    if (user) {
+      const notificationData: NotificationData = {
+        userId: user.id.toString(),
+        email: user.email,
+        phone: user.phone,
+        bookingId,
+        movieTitle: showtime.movieId ? (showtime.movieId as any).title : 'Movie',
+        showtime: showtime.startTime,
+        seats: [seatId],
+        seatLabel: `${seat.row}${seat.seatNumber}`,
+        amount: updatedBooking.totalAmount,
+        ...this.summarizeRefunds(refunds)
+      };
+
+      await this.notificationService.notify('booking.seat_cancelled', notificationData);
+    }
+
+    return { booking: updatedBooking, refunds };
+  }
+
+  // Move a paid booking to other seats, possibly at another showtime of the same movie, settling the price difference
+  async exchangeBooking(exchangeRequest: ExchangeRequest): Promise<ExchangeOutcome> {
+    const { bookingId, userId } = exchangeRequest;
+
+    const booking = await this.bookingRepository.findById(bookingId);
+    if (!booking) {
+      throw new HttpError('Booking not found', HTTP_STATUS_CODES.NOT_FOUND);
+    }
+
+    if (toIdString(booking.userId) !== userId) {
+      throw new HttpError('Unauthorized: You cannot exchange this booking', HTTP_STATUS_CODES.FORBIDDEN);
+    }
+
+    if (booking.bookingStatus !== 'confirmed' || !this.cancellationPolicyService.isPaymentCaptured(booking)) {
+      throw new HttpError('Only confirmed and paid bookings can be exchanged', HTTP_STATUS_CODES.CONFLICT);
+    }
+
+    const currentShowtime = await this.showtimeRepository.findById(toIdString(booking.showtimeId));
+    if (!currentShowtime) {
+      throw new Error('Showtime information not available');
+    }
+    if (new Date(currentShowtime.startTime) < new Date()) {
+      throw new HttpError('This showtime has already started', HTTP_STATUS_CODES.CONFLICT);
+    }
+
+    const targetShowtimeId = exchangeRequest.showtimeId || toIdString(currentShowtime._id);
+    const showtime = targetShowtimeId === toIdString(currentShowtime._id)
+      ? currentShowtime
+      : await this.showtimeRepository.findById(targetShowtimeId);
+    if (!showtime) {
+      throw new HttpError('Showtime not found', HTTP_STATUS_CODES.NOT_FOUND);
+    }
+    if (!showtime.isActive || new Date(showtime.startTime) < new Date()) {
+      throw new HttpError('The new showtime is no longer available', HTTP_STATUS_CODES.CONFLICT);
+    }
+    if (toIdString(showtime.movieId) !== toIdString(currentShowtime.movieId)) {
+      throw new HttpError('Bookings can only be exchanged to a showtime of the same movie', HTTP_STATUS_CODES.BAD_REQUEST);
+    }
+
+    const seatIds = Array.from(new Set((exchangeRequest.seatIds || []).map(id => id.toString())));
+    if (seatIds.length === 0) {
+      throw new HttpError('Missing seats to exchange to', HTTP_STATUS_CODES.BAD_REQUEST);
+    }
+
+    const previousSeatIds = booking.seats.map(seat => toIdString(seat));
+
+    // Dropping seats goes through cancelSeat so the cancellation policy decides the refund
+    if (seatIds.length < previousSeatIds.length) {
+      throw new HttpError(
+        'An exchange cannot reduce the number of seats; cancel the extra seats instead',
+        HTTP_STATUS_CODES.BAD_REQUEST
+      );
+    }
+
+    const sameShowtime = showtime === currentShowtime;
+    if (sameShowtime && seatIds.length === previousSeatIds.length && seatIds.every(seatId => previousSeatIds.includes(seatId))) {
+      throw new HttpError('The booking already has these seats', HTTP_STATUS_CODES.BAD_REQUEST);
+    }
+
+    const seats = await Seat.find({ _id: { $in: seatIds }, showtimeId: targetShowtimeId });
+    if (seats.length !== seatIds.length) {
+      throw new HttpError('All seats must belong to the selected showtime', HTTP_STATUS_CODES.BAD_REQUEST);
+    }
+    await this.assertSeatGroupsComplete(targetShowtimeId, seatIds);
+
+    // Ticket categories carry over seat by seat unless new ones are given
+    const categories = this.resolveSeatCategories(
+      seatIds,
+      exchangeRequest.seatCategories,
+      showtime,
+      (booking.lineItems || []).map(item => item.category)
+    );
+
+    const { priceLines, tickets } = await this.priceTickets(showtime, seatIds, seats, categories);
+    const subtotalAmount = tickets.reduce((sum, item) => sum + item.ticket.price, 0);
+    const categoryPrices = tickets.map(item => item.ticket.price);
+
+    // The promo code already redeemed by this booking keeps applying while it is still valid for the new seats
+    let discount: IAppliedDiscount | undefined;
+    if (booking.discount?.promotionId) {
+      const promotion = await this.promotionService.findCarriedOverPromotion(booking.discount.promotionId, showtime, tickets);
+      if (promotion) {
+        discount = {
+          promotionId: booking.discount.promotionId,
+          code: booking.discount.code,
+          discountType: booking.discount.discountType,
+          discountValue: booking.discount.discountValue,
+          amount: this.promotionService.applyToTickets(promotion, tickets),
+          refundable: booking.discount.refundable
+        };
+      }
+    }
+
+    const lineItems = this.buildLineItems(seatIds, priceLines, tickets, categoryPrices, discount?.code);
+    const feeAmount = lineItems.reduce((sum, item) => sum + item.fees.reduce((fees, fee) => fees + fee.amount, 0), 0);
+    const totalAmount = lineItems.reduce((sum, item) => sum + item.finalPrice, 0);
+    const priceDifference = totalAmount - booking.totalAmount;
+
+    // Moving to cheaper seats gives money back, so the cancellation policy of the current showtime decides how much
+    let reductionQuote: CancellationQuote | undefined;
+    if (priceDifference < 0) {
+      reductionQuote = await this.cancellationPolicyService.quotePriceReduction(booking, currentShowtime, -priceDifference);
+      if (!reductionQuote.allowed) {
+        throw new HttpError(
+          `Cannot exchange to cheaper seats: ${reductionQuote.reason}`,
+          HTTP_STATUS_CODES.BAD_REQUEST,
+          { quote: reductionQuote, priceDifference }
+        );
+      }
+    }
+
+    // Collect a higher price up front; it is refunded again if the new seats cannot be held
+    let charge: IBookingCharge | undefined;
+    if (priceDifference > 0) {
+      const paymentMethod = (exchangeRequest.paymentMethod || booking.paymentMethod || '').toLowerCase();
+      const definition = paymentStrategyRegistry.get(paymentMethod);
+      if (!definition) {
+        throw new HttpError(`Unsupported payment method: ${paymentMethod}`, HTTP_STATUS_CODES.BAD_REQUEST);
+      }
+      if (definition.settlesAsynchronously) {
+        throw new HttpError(
+          `${definition.displayName} cannot be used to pay an exchange price difference`,
+          HTTP_STATUS_CODES.BAD_REQUEST
+        );
+      }
+
+      const detailErrors = paymentStrategyRegistry.validateDetails(paymentMethod, exchangeRequest.paymentDetails, PAYMENT_CURRENCY);
+      if (detailErrors.length > 0) {
+        throw new HttpError('Invalid payment details', HTTP_STATUS_CODES.BAD_REQUEST, { errors: detailErrors, priceDifference });
+      }
+
+      let paymentResult: PaymentResult;
+      try {
+        const paymentProcessor = new PaymentProcessor(definition.create());
+        paymentResult = await paymentProcessor.processPayment(
+          priceDifference,
+          PAYMENT_CURRENCY,
+          { ...exchangeRequest.paymentDetails, reference: `${bookingId}-exchange-${(booking.exchanges || []).length + 1}` }
+        );
+      } catch (error: any) {
+        paymentResult = { success: false, message: error.message };
+      }
+
+      if (!paymentResult.success) {
+        throw new HttpError(
+          `Payment processing failed: ${paymentResult.message}`,
+          HTTP_STATUS_CODES.PAYMENT_REQUIRED,
+          { priceDifference }
+        );
+      }
+
+      charge = { paymentMethod, transactionId: paymentResult.transactionId!, amount: priceDifference, chargedAt: new Date() };
+    }
+
+    // The booking keeps its old seats and stays paid; only the extra charge is given back
+    const refundCharge = async (): Promise<void> => {
+      const chargeRefund = await this.refundPayment(charge!, priceDifference);
+      await this.bookingRepository.recordRefund(bookingId, chargeRefund);
+      this.alertRefundFailed(bookingId, chargeRefund, { exchangeTransactionId: charge!.transactionId });
+    };
+
+    let exchangedBooking: IBooking | null;
+    try {
+      exchangedBooking = await this.bookingRepository.exchangeSeats(
+        booking,
+        {
+          showtimeId: showtime._id as mongoose.Types.ObjectId,
+          seats: seatIds.map(id => new mongoose.Types.ObjectId(id)),
+          lineItems,
+          subtotalAmount,
+          feeAmount,
+          totalAmount,
+          discount
+        },
+        {
+          fromShowtimeId: currentShowtime._id as mongoose.Types.ObjectId,
+          toShowtimeId: showtime._id as mongoose.Types.ObjectId,
+          fromSeats: previousSeatIds.map(id => new mongoose.Types.ObjectId(id)),
+          toSeats: seatIds.map(id => new mongoose.Types.ObjectId(id)),
+          previousAmount: booking.totalAmount,
+          newAmount: totalAmount,
+          priceDifference,
+          paymentMethod: charge?.paymentMethod,
+          transactionId: charge?.transactionId,
+          exchangedAt: new Date()
+        },
+        charge
+      );
+    } catch (error: any) {
+      if (!charge) {
+        throw error;
+      }
+      await refundCharge();
+      throw error instanceof HttpError ? error : new Error(`Failed to exchange booking: ${error.message}`);
+    }
+
+    if (!exchangedBooking) {
+      if (charge) {
+        await refundCharge();
+      }
+      throw new HttpError('Booking was modified concurrently, please retry', HTTP_STATUS_CODES.CONFLICT);
+    }
+
+    // The refundable part of a lower price is paid back to the charges it was paid with
+    let refunds: IRefund[] = [];
+    if (reductionQuote && reductionQuote.refundableAmount > 0) {
+      refunds = await this.refundCharges(booking, reductionQuote.refundableAmount);
+      // The booking stays paid; a failed refund is recorded on the refund entry only
+      exchangedBooking = await this.bookingRepository.recordRefund(bookingId, refunds) || exchangedBooking;
+
+      refunds.forEach(refund => this.alertRefundFailed(bookingId, refund));
+    }
+
+    // Notify about seats update on both showtimes
+    try {
+      const previousSeats = booking.seats as unknown as ISeat[];
+      socketService.notifySeatsUpdated(
+        toIdString(currentShowtime._id),
+        SeatService.toSeatDiffs(
+          previousSeats.filter(seat => !sameShowtime || !seatIds.includes(toIdString(seat))),
+          'available'
+        )
+      );
+      socketService.notifySeatsUpdated(
+        targetShowtimeId,
+        SeatService.toSeatDiffs(
+          seats.filter(seat => !sameShowtime || !previousSeatIds.includes(seat.id)),
+          'booked'
+        )
+      );
+    } catch (wsError) {
+      console.error('WebSocket Error:', wsError);
+    }
+
+    const user = await this.userService.getUserById(userId);
+    if (user) {
+      const notificationData: NotificationData = {
+        userId: user.id.toString(),
+        email: user.email,
+        phone: user.phone,
+        bookingId,
+        movieTitle: showtime.movieId ? (showtime.movieId as any).title : 'Movie',
+        theaterName: showtime.screenId ?
+          ((showtime.screenId as any).theaterId ? (showtime.screenId as any).theaterId.name : 'Theater')
+          : 'Theater',
+        showtime: showtime.startTime,
+        seats: seatIds,
+        seatLabels: seats.map(seat => `${seat.row}${seat.seatNumber}`).join(', '),
+        amount: totalAmount,
+        priceDifference,
+        ...this.summarizeRefunds(refunds),
+        tickets: await this.issueTicketsForNotification(bookingId)
+      };
+
+      await this.notificationService.notify('booking.exchanged', notificationData);
+    }
+
+    return { booking: exchangedBooking, priceDifference, refunds };
+  }
+
+  // What cancelling the booking (or one of its seats) right now would refund under the applicable policy
+  async getCancellationQuote(bookingId: string, userId: string, seatId?: string): Promise<CancellationQuote> {
+    const booking = await this.bookingRepository.findById(bookingId);
+    if (!booking) {
+      throw new HttpError('Booking not found', HTTP_STATUS_CODES.NOT_FOUND);
+    }
+
+    if (toIdString(booking.userId) !== userId) {
+      throw new HttpError('Unauthorized: You cannot view this booking', HTTP_STATUS_CODES.FORBIDDEN);
+    }
+
+    if (booking.bookingStatus === 'cancelled') {
+      throw new HttpError('Booking is already cancelled', HTTP_STATUS_CODES.CONFLICT);
+    }
+
+    if (seatId && !booking.seats.some(seat => toIdString(seat) === seatId)) {
+      throw new HttpError('Seat is not part of this booking', HTTP_STATUS_CODES.NOT_FOUND);
+    }
+
+    const showtime = await this.showtimeRepository.findById(toIdString(booking.showtimeId));
+    if (!showtime) {
+      throw new Error('Showtime information not available');
+    }
+
+    return await this.cancellationPolicyService.quote(booking, showtime, seatId ? [seatId] : undefined);
+  }
+
+  async extendHold(bookingId: string, userId: string): Promise<IBooking> {
+    const booking = await this.bookingRepository.findById(bookingId);
+    if (!booking) {
+      throw new HttpError('Booking not found', HTTP_STATUS_CODES.NOT_FOUND);
+    }
+
+    if (toIdString(booking.userId) !== userId) {
+      throw new HttpError('Unauthorized: You cannot extend this booking', HTTP_STATUS_CODES.FORBIDDEN);
+    }
+
+    if (booking.bookingStatus !== 'reserved' || !booking.expiresAt) {
+      throw new HttpError('Only reserved bookings can be extended', HTTP_STATUS_CODES.CONFLICT);
+    }
+
+    if (new Date(booking.expiresAt) <= new Date()) {
+      throw new HttpError('This booking hold has already expired', HTTP_STATUS_CODES.GONE);
+    }
+
+    if ((booking.extensionCount || 0) >= HOLD_POLICY.maxExtensions) {
+      throw new HttpError('Maximum number of hold extensions reached', HTTP_STATUS_CODES.CONFLICT);
+    }
+
+    const extendedBooking = await this.bookingRepository.extendHold(booking, computeExtendedExpiry(booking.expiresAt));
+    if (!extendedBooking) {
+      throw new HttpError('Booking was modified concurrently, please retry', HTTP_STATUS_CODES.CONFLICT);
+    }
+
+    try {
+      socketService.notifyBookingReserved(userId, bookingId, extendedBooking.expiresAt!);
+    } catch (wsError) {
+      console.error('WebSocket Error:', wsError);
+    }
+
+    return extendedBooking;
+  }
+
+  // Refund through the strategy the booking was paid with; failures are returned, not thrown
+  private async refundPayment(booking: Pick<IBooking, 'paymentMethod' | 'transactionId'>, amount: number): Promise<IRefund> {
+    const paymentStrategy = paymentStrategyRegistry.createStrategy(booking.paymentMethod);
+    if (!paymentStrategy) {
+      return {
+        amount,
+        transactionId: booking.transactionId,
+        refundedAt: new Date(),
+        success: false,
+        message: `Unsupported payment method: ${booking.paymentMethod}`
+      };
+    }
+
+    try {
+      const paymentProcessor = new PaymentProcessor(paymentStrategy);
+      const refundResult = await paymentProcessor.processRefund(booking.transactionId!, amount);
+
+      return {
+        amount,
+        transactionId: booking.transactionId,
+        refundTransactionId: refundResult.transactionId,
+        refundedAt: new Date(),
+        success: refundResult.success,
+        message: refundResult.message
+      };
+    } catch (error: any) {
+      return {
+        amount,
+        transactionId: booking.transactionId,
+        refundedAt: new Date(),
+        success: false,
+        message: error.message || 'Refund failed'
+      };
+    }
+  }
+
+  // Split a refund across the charges of a booking, newest first, never refunding more than a charge captured
+  private async refundCharges(booking: IBooking, amount: number): Promise<IRefund[]> {
+    const refunds: IRefund[] = [];
+    let remaining = amount;
+
+    for (const charge of this.getCharges(booking).reverse()) {
+      if (remaining <= 0) {
+        break;
+      }
+
+      // Failed refunds count too: an admin settles them by hand against the same charge
+      const refunded = (booking.refunds || [])
+        .filter(refund => refund.transactionId === charge.transactionId)
+        .reduce((sum, refund) => sum + refund.amount, 0);
+      const share = Math.min(remaining, charge.amount - refunded);
+      if (share <= 0) {
+        continue;
+      }
+
+      refunds.push(await this.refundPayment(charge, share));
+      remaining -= share;
+    }
+
+    if (remaining > 0) {
+      refunds.push({
+        amount: remaining,
+        refundedAt: new Date(),
+        success: false,
+        message: 'Refund exceeds the amount captured for this booking'
+      });
+    }
+
+    return refunds;
+  }
+
+  // Bookings paid before charges were recorded only know their original transaction (left uncapped) and exchange upcharges
+  private getCharges(booking: IBooking): IBookingCharge[] {
+    if (booking.charges && booking.charges.length > 0) {
+      return [...booking.charges];
+    }
+    if (!booking.transactionId) {
+      return [];
+    }
+
+    return [
+      { paymentMethod: booking.paymentMethod, transactionId: booking.transactionId, amount: Infinity, chargedAt: booking.bookedAt },
+      ...(booking.exchanges || [])
+        .filter(exchange => exchange.priceDifference > 0 && exchange.transactionId)
+        .map(exchange => ({
+          paymentMethod: exchange.paymentMethod!,
+          transactionId: exchange.transactionId!,
+          amount: exchange.priceDifference,
+          chargedAt: exchange.exchangedAt
+        }))
+    ];
+  }
+
+  // What the customer is told about the refunds of one cancellation or exchange
+  private summarizeRefunds(refunds: IRefund[]): Partial<NotificationData> {
+    if (refunds.length === 0) {
+      return { refundAmount: 0, refundStatus: undefined };
+    }
+
+    return {
+      refundAmount: refunds.filter(refund => refund.success).reduce((sum, refund) => sum + refund.amount, 0),
+      refundStatus: refunds.every(refund => refund.success) ? 'refunded' : 'refund_failed'
+    };
+  }
+
+  // Signed e-tickets (one per seat, with a QR code) of a confirmed booking
+  async getTickets(bookingId: string, userId: string, role?: string): Promise<ETicket[]> {
+    const booking = await this.findViewableBooking(bookingId, userId, role);
+
+    if (booking.bookingStatus !== 'confirmed') {
+      throw new HttpError('Tickets are only available for confirmed bookings', HTTP_STATUS_CODES.CONFLICT);
+    }
+
+    const showtime = await this.showtimeRepository.findById(toIdString(booking.showtimeId));
+    if (!showtime) {
+      throw new Error('Showtime information not available');
+    }
+
+    return await this.ticketService.issueTickets(booking, showtime);
+  }
+
+  // Printable tickets: one page per seat with its QR code
+  async getTicketPdf(bookingId: string, userId: string, role?: string): Promise<Buffer> {
+    const booking = await this.findViewableBooking(bookingId, userId, role);
+
+    if (booking.bookingStatus !== 'confirmed') {
+      throw new HttpError('Tickets are only available for confirmed bookings', HTTP_STATUS_CODES.CONFLICT);
+    }
+
+    // findById populates the showtime with its movie, screen and theater
+    const tickets = await this.ticketService.issueTickets(booking, booking.showtimeId as unknown as IShowtime);
+    return await this.bookingDocumentService.renderTicketPdf(booking, tickets);
+  }
+
+  // Invoice of a paid booking, rendered from the content fixed when it was issued at payment time
+  async getInvoicePdf(bookingId: string, userId: string, role?: string): Promise<{ pdf: Buffer; invoiceNumber: string }> {
+    const booking = await this.findViewableBooking(bookingId, userId, role);
+
+    if (!booking.transactionId || !['completed', 'refunded', 'refund_failed'].includes(booking.paymentStatus)) {
+      throw new HttpError('Invoices are only available for paid bookings', HTTP_STATUS_CODES.CONFLICT);
+    }
+
+    // Bookings paid before invoices were issued at payment time, or whose issuing failed then
+    if (!booking.invoice?.number) {
+      const invoicedBooking = await this.issueInvoice(bookingId);
+      booking.invoice = invoicedBooking!.invoice;
+    }
+
+    const pdf = await this.bookingDocumentService.renderInvoicePdf(booking);
+    return { pdf, invoiceNumber: booking.invoice!.number };
+  }
+
+  // Number the invoice of a booking and store what it bills; does nothing if the booking already has one
+  private async issueInvoice(bookingId: string): Promise<IBooking | null> {
+    const booking = await this.bookingRepository.findById(bookingId);
+    if (!booking || booking.invoice?.number) {
+      return booking;
+    }
+
+    const breakdown = this.getPriceBreakdown(booking);
+    const customer = booking.userId as any;
+    const showtime = booking.showtimeId as any;
+    const snapshot: IInvoiceSnapshot = {
+      customerName: customer?.username,
+      customerEmail: customer?.email,
+      paymentMethod: booking.paymentMethod,
+      transactionId: booking.transactionId,
+      movieTitle: showtime?.movieId?.title || 'Movie',
+      theaterName: showtime?.screenId?.theaterId?.name || 'Theater',
+      screenName: showtime?.screenId?.name || '-',
+      startTime: showtime?.startTime,
+      lines: breakdown.items.map(item => ({
+        row: item.row,
+        number: item.number,
+        seatType: item.seatType,
+        category: item.category,
+        seatPrice: item.seatPrice,
+        discountAmount: (item.discounts || []).reduce((sum, discount) => sum + discount.amount, 0),
+        feeAmount: (item.fees || []).reduce((sum, fee) => sum + fee.amount, 0),
+        finalPrice: item.finalPrice
+      })),
+      subtotalAmount: breakdown.subtotalAmount,
+      discountAmount: breakdown.discountAmount,
+      feeAmount: breakdown.feeAmount,
+      totalAmount: breakdown.totalAmount
+    };
+
+    return await this.bookingRepository.assignInvoice(bookingId, INVOICE_NUMBER_PREFIX, VAT_RATE, new Date(), snapshot);
+  }
+
+  // The seats left after a partial cancellation must still be a booking we would have accepted:
+  // no child-only tickets, and the applied promo code still has to qualify
+  private async assertRemainingSeatsBookable(booking: IBooking, seatId: string): Promise<void> {
+    const remainingItems = (booking.lineItems || []).filter(item => toIdString(item.seat) !== seatId);
+    if (remainingItems.length === 0) {
+      return;
+    }
+
+    // Only the companion rule matters here; weekday-only categories were already checked when booking
+    const categoryErrors = TicketFactory.checkAudienceEligibility(
+      remainingItems.map(item => item.category),
+      { isWeekday: true }
+    );
+    if (categoryErrors.length > 0) {
+      throw new HttpError(
+        'Cancelling this seat would leave tickets that cannot be booked on their own',
+        HTTP_STATUS_CODES.BAD_REQUEST,
+        { errors: categoryErrors }
+      );
+    }
+
+    if (booking.discount?.promotionId) {
+      const tickets: PricedTicket[] = remainingItems.map(item => ({
+        seatType: item.seatType,
+        ticket: TicketFactory.createTicket(item.seatType, item.seatPrice, item.category)
+      }));
+      const reason = await this.promotionService.checkRemainingTickets(booking.discount.promotionId, tickets);
+      if (reason) {
+        throw new HttpError(
+          'Cancelling this seat would invalidate the promotion applied to this booking; cancel the whole booking instead',
+          HTTP_STATUS_CODES.BAD_REQUEST,
+          { errors: [reason] }
+        );
+      }
+    }
+  }
+
+  // Linked seats (couple/sofa seats) must be booked as a whole group
+  private async assertSeatGroupsComplete(showtimeId: string, seatIds: string[]): Promise<void> {
+    const incompleteGroups = await SeatService.findIncompleteGroups(showtimeId, seatIds);
+    if (incompleteGroups.length > 0) {
+      throw new HttpError('Linked seats must be booked together', HTTP_STATUS_CODES.BAD_REQUEST, { groups: incompleteGroups });
+    }
+  }
+
+  // Failed refunds are settled by hand, so every one of them is pushed to the admins
+  private alertRefundFailed(bookingId: string, refund: IRefund, extra: Record<string, unknown> = {}): void {
+    if (refund.success) {
+      return;
+    }
+
+    try {
+      socketService.sendToAllAdmins('refund_failed', {
+        bookingId,
+        ...extra,
+        amount: refund.amount,
+        message: refund.message
+      });
+    } catch (wsError) {
+      console.error('WebSocket Error:', wsError);
+    }
+  }
+
+  private async findViewableBooking(bookingId: string, userId: string, role?: string): Promise<IBooking> {
+    const booking = await this.bookingRepository.findById(bookingId);
+    if (!booking) {
+      throw new HttpError('Booking not found', HTTP_STATUS_CODES.NOT_FOUND);
+    }
+
+    if (role !== 'admin' && toIdString(booking.userId) !== userId) {
+      throw new HttpError('Unauthorized: You cannot view this booking', HTTP_STATUS_CODES.FORBIDDEN);
+    }
+
+    return booking;
+  }
+
+  // Tickets attached to a notification; a ticket problem must never stop the notification itself
+  private async issueTicketsForNotification(bookingId: string): Promise<ETicket[] | undefined> {
+    try {
+      const booking = await this.bookingRepository.findById(bookingId);
+      const showtime = booking && await this.showtimeRepository.findById(toIdString(booking.showtimeId));
+      if (!booking || !showtime) {
+        return undefined;
+      }
+
+      return await this.ticketService.issueTickets(booking, showtime);
+    } catch (error: any) {
+      console.error('Error issuing tickets:', error.message);
+      return undefined;
+    }
+  }
+
   async getUserBookings(userId: string): Promise<IBooking[]> {
     if (!userId) {
       throw new Error('User ID is required');
@@ -345,10 +1420,57 @@ export class BookingService {
       throw new Error('Booking not found');
     }
 
-    if (booking.userId.toString() !== userId) {
+    if (toIdString(booking.userId) !== userId) {
       throw new Error('Unauthorized: You cannot view this booking');
     }
 
     return booking;
   }
+
+  // Per-seat prices of a booking, grouped by audience category
+  getPriceBreakdown(booking: IBooking): BookingPriceBreakdown {
+    const seatsById = new Map(
+      (booking.seats as unknown as ISeat[]).map(seat => [toIdString(seat), seat])
+    );
+
+    const items = (booking.lineItems || []).map(item => {
+      const seat = seatsById.get(toIdString(item.seat));
+      return {
+        seatId: toIdString(item.seat),
+        row: seat?.row,
+        number: seat?.seatNumber,
+        seatType: item.seatType,
+        category: item.category,
+        basePrice: item.basePrice,
+        adjustments: item.adjustments,
+        seatPrice: item.seatPrice,
+        discounts: item.discounts,
+        fees: item.fees,
+        finalPrice: item.finalPrice
+      };
+    });
+
+    const byCategory = new Map<string, { category: string; label: string; count: number; amount: number }>();
+    for (const item of items) {
+      const group = byCategory.get(item.category) || {
+        category: item.category,
+        label: AUDIENCE_CATEGORIES[item.category]?.label || item.category,
+        count: 0,
+        amount: 0
+      };
+      group.count++;
+      group.amount += item.finalPrice;
+      byCategory.set(item.category, group);
+    }
+
+    return {
+      items,
+      categories: Array.from(byCategory.values()),
+      subtotalAmount: booking.subtotalAmount ?? booking.totalAmount,
+      discountAmount: booking.discount?.amount || 0,
+      feeAmount: booking.feeAmount || 0,
+      totalAmount: booking.totalAmount
+    };
+  }
+
 }
\ No newline at end of file
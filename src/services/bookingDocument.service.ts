@@ -0,0 +1,158 @@
+import PDFDocument from "pdfkit";
+import { IBooking } from "../models/booking.model";
+import { ETicket } from "./ticket.service";
+import { PAYMENT_CURRENCY } from "../config/payment";
+import { PRICING_TIMEZONE } from "../config/pricing";
+import { INVOICE_SELLER_NAME, INVOICE_SELLER_TAX_CODE, PDF_FONT_PATH } from "../config/document";
+import { toIdString } from "../utils/mongo";
+
+// Tạo vé in từ đặt chỗ đã được nạp đầy đủ (suất chiếu, phim, phòng, rạp, ghế, người dùng) và hóa đơn PDF từ nội dung đã chốt
+export class BookingDocumentService {
+    // Mỗi ghế một trang, kèm mã QR của vé điện tử
+    async renderTicketPdf(booking: IBooking, tickets: ETicket[]): Promise<Buffer> {
+        const doc = this.createDocument({ size: "A6", margin: 24 });
+        const details = this.getShowDetails(booking);
+
+        tickets.forEach((ticket, index) => {
+            if (index > 0) {
+                doc.addPage();
+            }
+
+            doc.fontSize(14).text(details.movieTitle, { align: "center" });
+            doc.moveDown(0.3);
+            doc.fontSize(9)
+                .text(details.theaterName, { align: "center" })
+                .text(`Screen ${details.screenName}`, { align: "center" })
+                .text(this.formatDate(details.startTime), { align: "center" });
+            doc.moveDown(0.5);
+
+            doc.fontSize(18).text(`Seat ${ticket.seat}`, { align: "center" });
+            doc.fontSize(9).text(`${ticket.seatType} - ${ticket.category}`, { align: "center" });
+            doc.moveDown(0.5);
+
+            const qrSize = 150;
+            doc.image(this.dataUrlToBuffer(ticket.qrCode), (doc.page.width - qrSize) / 2, doc.y, { width: qrSize });
+            doc.y += qrSize + 8;
+
+            doc.fontSize(7)
+                .text(`Booking ${toIdString(booking._id)}`, { align: "center" })
+                .text("Present this code at the entrance. Valid for one admission.", { align: "center" });
+        });
+
+        return await this.toBuffer(doc);
+    }
+
+    // Hóa đơn chỉ dùng nội dung đã chốt khi cấp số, không đọc lại đặt chỗ hay suất chiếu
+    async renderInvoicePdf(booking: IBooking): Promise<Buffer> {
+        const doc = this.createDocument({ size: "A4", margin: 50 });
+        const invoice = booking.invoice!;
+
+        doc.fontSize(18).text("INVOICE", { align: "right" });
+        doc.fontSize(10)
+            .text(`No. ${invoice.number}`, { align: "right" })
+            .text(`Date: ${this.formatDate(invoice.issuedAt)}`, { align: "right" });
+
+        doc.moveDown();
+        doc.fontSize(11).text(INVOICE_SELLER_NAME);
+        if (INVOICE_SELLER_TAX_CODE) {
+            doc.fontSize(9).text(`Tax code: ${INVOICE_SELLER_TAX_CODE}`);
+        }
+
+        doc.moveDown();
+        doc.fontSize(10)
+            .text(`Customer: ${invoice.customerName || ""} <${invoice.customerEmail || ""}>`)
+            .text(`Booking: ${toIdString(booking._id)}`)
+            .text(`Payment: ${invoice.paymentMethod || "-"}, transaction ${invoice.transactionId || "-"}`);
+
+        doc.moveDown();
+        doc.text(`${invoice.movieTitle} - ${invoice.theaterName}, screen ${invoice.screenName}`)
+            .text(`Showtime: ${this.formatDate(invoice.startTime!)}`);
+
+        // Bảng giá từng ghế
+        doc.moveDown();
+        const columns = [50, 110, 230, 320, 410, 480];
+        const header = ["Seat", "Type / category", "Seat price", "Discounts", "Fees", "Amount"];
+        this.tableRow(doc, columns, header);
+        doc.moveTo(50, doc.y).lineTo(545, doc.y).stroke();
+        doc.moveDown(0.3);
+
+        for (const line of invoice.lines) {
+            this.tableRow(doc, columns, [
+                `${line.row ?? ""}${line.number ?? ""}`,
+                `${line.seatType} / ${line.category}`,
+                this.formatMoney(line.seatPrice),
+                this.formatMoney(-line.discountAmount),
+                this.formatMoney(line.feeAmount),
+                this.formatMoney(line.finalPrice)
+            ]);
+        }
+
+        doc.moveTo(50, doc.y).lineTo(545, doc.y).stroke();
+        doc.moveDown(0.5);
+
+        // Giá vé đã bao gồm thuế GTGT
+        const vatAmount = Math.round(invoice.totalAmount * invoice.vatRate / (100 + invoice.vatRate));
+        const summary: [string, number][] = [
+            ["Subtotal", invoice.subtotalAmount],
+            ["Discount", -invoice.discountAmount],
+            ["Booking fees", invoice.feeAmount],
+            [`Total excluding VAT`, invoice.totalAmount - vatAmount],
+            [`VAT ${invoice.vatRate}%`, vatAmount],
+            ["Total", invoice.totalAmount]
+        ];
+        for (const [label, amount] of summary) {
+            this.tableRow(doc, [320, 480], [label, this.formatMoney(amount)]);
+        }
+
+        return await this.toBuffer(doc);
+    }
+
+    private createDocument(options: PDFKit.PDFDocumentOptions): PDFKit.PDFDocument {
+        const doc = new PDFDocument(options);
+        if (PDF_FONT_PATH) {
+            doc.font(PDF_FONT_PATH);
+        }
+        return doc;
+    }
+
+    private getShowDetails(booking: IBooking): { movieTitle: string; theaterName: string; screenName: string; startTime: Date } {
+        const showtime = booking.showtimeId as any;
+        return {
+            movieTitle: showtime?.movieId?.title || "Movie",
+            theaterName: showtime?.screenId?.theaterId?.name || "Theater",
+            screenName: showtime?.screenId?.name || "-",
+            startTime: showtime?.startTime
+        };
+    }
+
+    private tableRow(doc: PDFKit.PDFDocument, columns: number[], cells: string[]): void {
+        const y = doc.y;
+        cells.forEach((cell, index) => {
+            doc.fontSize(9).text(cell, columns[index], y, { lineBreak: false });
+        });
+        doc.x = columns[0];
+        doc.y = y + 14;
+    }
+
+    private formatMoney(amount: number): string {
+        return `${new Intl.NumberFormat("vi-VN").format(amount)} ${PAYMENT_CURRENCY}`;
+    }
+
+    private formatDate(date: Date): string {
+        return date ? new Date(date).toLocaleString("vi-VN", { timeZone: PRICING_TIMEZONE }) : "-";
+    }
+
+    private dataUrlToBuffer(dataUrl: string): Buffer {
+        return Buffer.from(dataUrl.split(",")[1], "base64");
+    }
+
+    private toBuffer(doc: PDFKit.PDFDocument): Promise<Buffer> {
+        return new Promise((resolve, reject) => {
+            const chunks: Buffer[] = [];
+            doc.on("data", chunk => chunks.push(chunk));
+            doc.on("end", () => resolve(Buffer.concat(chunks)));
+            doc.on("error", reject);
+            doc.end();
+        });
+    }
+}
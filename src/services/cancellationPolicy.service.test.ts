@@ -0,0 +1,117 @@
+import { describe, test, mock, beforeEach, afterEach } from "node:test";
+import assert from "node:assert/strict";
+import mongoose from "mongoose";
+import { CancellationPolicyService } from "./cancellationPolicy.service";
+import { CancellationPolicy } from "../models/cancellationPolicy.model";
+import { IBooking } from "../models/booking.model";
+import { IShowtime } from "../models/showtime.model";
+
+const HOUR = 60 * 60 * 1000;
+const NOW = new Date("2026-03-10T12:00:00Z");
+const seatIds = [new mongoose.Types.ObjectId(), new mongoose.Types.ObjectId()];
+
+// Hoàn 100% trước 48 giờ, 50% trước 24 giờ, không hoàn trước 2 giờ, không cho hủy sau đó
+const POLICY = {
+  _id: new mongoose.Types.ObjectId(),
+  name: "Tiered",
+  scope: "default",
+  tiers: [
+    { minHoursBefore: 24, refundPercent: 50 },
+    { minHoursBefore: 48, refundPercent: 100 },
+    { minHoursBefore: 2, refundPercent: 0 },
+  ],
+};
+
+const showtimeIn = (hours: number): IShowtime =>
+  ({ _id: new mongoose.Types.ObjectId(), startTime: new Date(NOW.getTime() + hours * HOUR) }) as unknown as IShowtime;
+
+const paidBooking = (overrides: Record<string, unknown> = {}): IBooking =>
+  ({
+    seats: seatIds,
+    lineItems: [
+      { seat: seatIds[0], finalPrice: 120000 },
+      { seat: seatIds[1], finalPrice: 80000 },
+    ],
+    totalAmount: 200000,
+    paymentStatus: "completed",
+    transactionId: "cc_1",
+    ...overrides,
+  }) as unknown as IBooking;
+
+const usePolicies = (policies: unknown[]) => {
+  mock.method(CancellationPolicy, "find", (() => ({ sort: async () => policies })) as any);
+};
+
+describe("CancellationPolicyService.quote", () => {
+  const service = new CancellationPolicyService();
+
+  beforeEach(() => usePolicies([POLICY]));
+  afterEach(() => mock.restoreAll());
+
+  test("picks the highest tier the cancellation time still reaches", async () => {
+    const cases: [number, number][] = [[72, 100], [48, 100], [47.5, 50], [24, 50], [23, 0], [2, 0]];
+
+    for (const [hoursBefore, refundPercent] of cases) {
+      const quote = await service.quote(paidBooking(), showtimeIn(hoursBefore), undefined, NOW);
+      assert.equal(quote.allowed, true, `${hoursBefore}h before`);
+      assert.equal(quote.refundPercent, refundPercent, `${hoursBefore}h before`);
+      assert.equal(quote.refundableAmount, 200000 * refundPercent / 100, `${hoursBefore}h before`);
+      assert.equal(quote.nonRefundableAmount, 200000 - quote.refundableAmount, `${hoursBefore}h before`);
+    }
+  });
+
+  test("refuses cancellation after the last tier", async () => {
+    const quote = await service.quote(paidBooking(), showtimeIn(1.5), undefined, NOW);
+
+    assert.equal(quote.allowed, false);
+    assert.equal(quote.refundableAmount, 0);
+    assert.match(quote.reason!, /less than 2 hours/);
+  });
+
+  test("quotes a single seat from its own line item", async () => {
+    const quote = await service.quote(paidBooking(), showtimeIn(30), [seatIds[0].toString()], NOW);
+
+    assert.equal(quote.paidAmount, 120000);
+    assert.equal(quote.refundableAmount, 60000);
+  });
+
+  test("refunds nothing for a booking that was never paid", async () => {
+    const quote = await service.quote(paidBooking({ paymentStatus: "pending", transactionId: undefined }), showtimeIn(72), undefined, NOW);
+
+    assert.equal(quote.allowed, true);
+    assert.equal(quote.paidAmount, 0);
+    assert.equal(quote.refundableAmount, 0);
+  });
+
+  test("refunds nothing when the booking used a non-refundable promotion", async () => {
+    const booking = paidBooking({ discount: { code: "FLASH", refundable: false } });
+    const quote = await service.quote(booking, showtimeIn(72), undefined, NOW);
+
+    assert.equal(quote.allowed, true);
+    assert.equal(quote.refundableAmount, 0);
+    assert.equal(quote.nonRefundableAmount, 200000);
+    assert.match(quote.reason!, /FLASH/);
+  });
+
+  test("falls back to the default tiers when no policy is configured", async () => {
+    usePolicies([]);
+
+    const quote = await service.quote(paidBooking(), showtimeIn(72), undefined, NOW);
+
+    assert.equal(quote.policy.name, "Default");
+    assert.equal(quote.refundPercent, 100);
+  });
+
+  test("prefers a showtime policy over the default one", async () => {
+    const showtime = showtimeIn(30);
+    usePolicies([
+      POLICY,
+      { ...POLICY, _id: new mongoose.Types.ObjectId(), name: "Premiere", scope: "showtime", tiers: [{ minHoursBefore: 0, refundPercent: 10 }] },
+    ]);
+
+    const quote = await service.quote(paidBooking(), showtime, undefined, NOW);
+
+    assert.equal(quote.policy.name, "Premiere");
+    assert.equal(quote.refundPercent, 10);
+  });
+});
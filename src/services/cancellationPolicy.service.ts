@@ -0,0 +1,150 @@
+import { CancellationPolicy, ICancellationPolicy, ICancellationTier } from "../models/cancellationPolicy.model";
+import { IBooking } from "../models/booking.model";
+import { IShowtime } from "../models/showtime.model";
+import { DEFAULT_CANCELLATION_TIERS } from "../config/cancellation";
+import { toIdString } from "../utils/mongo";
+
+// Số tiền được hoàn nếu hủy (toàn bộ hoặc một số ghế của) một đặt chỗ tại một thời điểm
+export interface CancellationQuote {
+    allowed: boolean;
+    reason?: string;
+    policy: { id?: string; name: string; scope: string };
+    tiers: ICancellationTier[];
+    hoursBeforeShowtime: number;
+    refundPercent: number;
+    seatIds: string[];
+    paidAmount: number;
+    refundableAmount: number;
+    nonRefundableAmount: number;
+    quotedAt: Date;
+}
+
+export class CancellationPolicyService {
+    async getAllPolicies(): Promise<ICancellationPolicy[]> {
+        return await CancellationPolicy.find().sort({ scope: 1, createdAt: -1 });
+    }
+
+    async getPolicyById(id: string): Promise<ICancellationPolicy | null> {
+        return await CancellationPolicy.findById(id);
+    }
+
+    async createPolicy(policyData: Partial<ICancellationPolicy>): Promise<ICancellationPolicy> {
+        if (!policyData.name || !policyData.tiers) {
+            throw new Error("Missing required cancellation policy information");
+        }
+
+        const policy = new CancellationPolicy(policyData);
+        return await policy.save();
+    }
+
+    async updatePolicy(id: string, policyData: Partial<ICancellationPolicy>): Promise<ICancellationPolicy | null> {
+        const policy = await CancellationPolicy.findById(id);
+        if (!policy) {
+            return null;
+        }
+
+        policy.set(policyData);
+        // save() thay vì findByIdAndUpdate để chạy lại validation giữa các trường
+        return await policy.save();
+    }
+
+    async deletePolicy(id: string): Promise<void> {
+        await CancellationPolicy.findByIdAndDelete(id);
+    }
+
+    // Chính sách áp dụng cho một suất chiếu: của suất chiếu, rồi của rạp, rồi chính sách mặc định
+    async resolvePolicy(showtime: IShowtime): Promise<ICancellationPolicy | null> {
+        const theaterId = toIdString((showtime.screenId as any)?.theaterId);
+        const candidates = await CancellationPolicy.find({
+            isActive: true,
+            $or: [
+                { scope: "showtime", showtimeId: showtime._id },
+                ...(theaterId ? [{ scope: "theater", theaterId }] : []),
+                { scope: "default" }
+            ]
+        }).sort({ updatedAt: -1 });
+
+        for (const scope of ["showtime", "theater", "default"]) {
+            const policy = candidates.find(candidate => candidate.scope === scope);
+            if (policy) {
+                return policy;
+            }
+        }
+
+        return null;
+    }
+
+    // Tiền đã được thu và chưa hoàn toàn bộ; refund_failed của một lần hoàn một phần không làm mất khoản đã thu
+    isPaymentCaptured(booking: Pick<IBooking, "transactionId" | "paymentStatus">): boolean {
+        return !!booking.transactionId && ["completed", "refund_failed"].includes(booking.paymentStatus);
+    }
+
+    // Tính số tiền được hoàn khi hủy; seatIds bỏ trống nghĩa là hủy cả đặt chỗ
+    async quote(booking: IBooking, showtime: IShowtime, seatIds?: string[], now: Date = new Date()): Promise<CancellationQuote> {
+        const quotedSeatIds = seatIds || booking.seats.map(seat => toIdString(seat));
+
+        // Đặt chỗ cũ không có giá từng ghế thì chia đều tổng tiền
+        const seatAmount = (seatId: string): number => {
+            const lineItem = (booking.lineItems || []).find(item => toIdString(item.seat) === seatId);
+            return lineItem ? lineItem.finalPrice : Math.round(booking.totalAmount / booking.seats.length);
+        };
+        const amount = seatIds ? quotedSeatIds.reduce((sum, seatId) => sum + seatAmount(seatId), 0) : booking.totalAmount;
+
+        return await this.quoteAmount(booking, showtime, quotedSeatIds, amount, now);
+    }
+
+    // Đổi sang ghế rẻ hơn là hủy một phần số tiền đã trả: phần chênh lệch được hoàn theo cùng mốc thời gian và mã khuyến mãi
+    async quotePriceReduction(booking: IBooking, showtime: IShowtime, amount: number, now: Date = new Date()): Promise<CancellationQuote> {
+        return await this.quoteAmount(booking, showtime, [], amount, now);
+    }
+
+    private async quoteAmount(
+        booking: IBooking,
+        showtime: IShowtime,
+        quotedSeatIds: string[],
+        amount: number,
+        now: Date
+    ): Promise<CancellationQuote> {
+        const policy = await this.resolvePolicy(showtime);
+        const tiers = [...(policy ? policy.tiers : DEFAULT_CANCELLATION_TIERS)]
+            .map(tier => ({ minHoursBefore: tier.minHoursBefore, refundPercent: tier.refundPercent }))
+            .sort((a, b) => b.minHoursBefore - a.minHoursBefore);
+
+        const hoursBeforeShowtime = (new Date(showtime.startTime).getTime() - now.getTime()) / (60 * 60 * 1000);
+        const paidAmount = this.isPaymentCaptured(booking) ? amount : 0;
+
+        const quote: CancellationQuote = {
+            allowed: true,
+            policy: policy
+                ? { id: toIdString(policy._id), name: policy.name, scope: policy.scope }
+                : { name: "Default", scope: "default" },
+            tiers,
+            hoursBeforeShowtime: Math.round(hoursBeforeShowtime * 100) / 100,
+            refundPercent: 0,
+            seatIds: quotedSeatIds,
+            paidAmount,
+            refundableAmount: 0,
+            nonRefundableAmount: paidAmount,
+            quotedAt: now
+        };
+
+        const tier = tiers.find(candidate => hoursBeforeShowtime >= candidate.minHoursBefore);
+        if (!tier) {
+            const deadline = tiers.length > 0 ? tiers[tiers.length - 1].minHoursBefore : 0;
+            quote.allowed = false;
+            quote.reason = `Cannot cancel booking less than ${deadline} hours before showtime`;
+            return quote;
+        }
+
+        if (booking.discount && booking.discount.refundable === false) {
+            quote.reason = `Tickets bought with promotion ${booking.discount.code} are non-refundable`;
+            return quote;
+        }
+
+        quote.refundPercent = tier.refundPercent;
+        quote.refundableAmount = Math.round(paidAmount * tier.refundPercent / 100);
+        quote.nonRefundableAmount = paidAmount - quote.refundableAmount;
+
+        return quote;
+    }
+}
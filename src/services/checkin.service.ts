@@ -0,0 +1,124 @@
+import mongoose from "mongoose";
+import { Seat } from "../models/seat.model";
+import { BookingRepository } from "../patterns/repository/BookingRepository";
+import { ShowtimeRepository } from "../patterns/repository/ShowtimeRepository";
+import { TicketService } from "./ticket.service";
+import { TicketPayload } from "../utils/ticketToken";
+import { HttpError } from "../utils/errors";
+import { toIdString } from "../utils/mongo";
+import { HTTP_STATUS_CODES } from "../httpStatus/httpStatusCode";
+
+export interface CheckinResult {
+    ticket: TicketPayload;
+    checkedInAt: Date;
+}
+
+export interface AttendanceSummary {
+    showtimeId: string;
+    capacity: number;
+    sold: number;
+    checkedIn: number;
+    notCheckedIn: number;
+    reserved: number;
+}
+
+export class CheckinService {
+    private bookingRepository: BookingRepository;
+    private showtimeRepository: ShowtimeRepository;
+    private ticketService: TicketService;
+
+    constructor() {
+        this.bookingRepository = new BookingRepository();
+        this.showtimeRepository = new ShowtimeRepository();
+        this.ticketService = new TicketService();
+    }
+
+    // Soát một vé quét tại cửa của suất chiếu showtimeId; mỗi vé chỉ được dùng một lần
+    async checkIn(token: string, showtimeId: string, staffId: string, now: Date = new Date()): Promise<CheckinResult> {
+        // Chữ ký được kiểm tra trước để vé giả không chạm tới cơ sở dữ liệu
+        const ticket = this.ticketService.verifyTicket(token);
+        if (!ticket) {
+            throw new HttpError("Invalid or expired ticket", HTTP_STATUS_CODES.UNPROCESSABLE_ENTITY);
+        }
+
+        if (ticket.showtimeId !== showtimeId) {
+            throw new HttpError("Ticket is for a different showtime", HTTP_STATUS_CODES.CONFLICT, { ticket });
+        }
+
+        const booking = await this.bookingRepository.findById(ticket.bookingId);
+        if (!booking) {
+            throw new HttpError("Booking not found", HTTP_STATUS_CODES.NOT_FOUND, { ticket });
+        }
+
+        if (booking.bookingStatus === "cancelled") {
+            throw new HttpError("Booking has been cancelled", HTTP_STATUS_CODES.CONFLICT, { ticket });
+        }
+
+        if (booking.paymentStatus === "refunded") {
+            throw new HttpError("Booking has been refunded", HTTP_STATUS_CODES.CONFLICT, { ticket });
+        }
+
+        if (booking.bookingStatus !== "confirmed") {
+            throw new HttpError("Booking is not confirmed", HTTP_STATUS_CODES.CONFLICT, { ticket });
+        }
+
+        // Vé phát hành trước khi đổi ghế hoặc trước khi hủy riêng ghế này không còn hiệu lực
+        if (ticket.version !== (booking.exchanges || []).length || toIdString(booking.showtimeId) !== showtimeId) {
+            throw new HttpError("Ticket was replaced after the booking was exchanged", HTTP_STATUS_CODES.CONFLICT, { ticket });
+        }
+
+        if (!booking.seats.some(seat => toIdString(seat) === ticket.seatId)) {
+            throw new HttpError("Seat is no longer part of this booking", HTTP_STATUS_CODES.CONFLICT, { ticket });
+        }
+
+        // Compare-and-set: hai máy quét cùng một vé thì chỉ một máy thành công
+        const seat = await Seat.findOneAndUpdate(
+            {
+                _id: ticket.seatId,
+                showtimeId,
+                bookingId: booking._id,
+                status: "booked",
+                checkedInAt: { $exists: false }
+            },
+            { checkedInAt: now, checkedInBy: new mongoose.Types.ObjectId(staffId) },
+            { new: true }
+        );
+
+        if (!seat) {
+            const usedSeat = await Seat.findById(ticket.seatId);
+            if (usedSeat?.checkedInAt) {
+                throw new HttpError("Ticket has already been used", HTTP_STATUS_CODES.CONFLICT, {
+                    ticket,
+                    checkedInAt: usedSeat.checkedInAt
+                });
+            }
+            throw new HttpError("Seat is not booked for this showtime", HTTP_STATUS_CODES.CONFLICT, { ticket });
+        }
+
+        return { ticket, checkedInAt: seat.checkedInAt! };
+    }
+
+    // Số vé đã bán so với số khách đã vào cửa của một suất chiếu
+    async getAttendance(showtimeId: string): Promise<AttendanceSummary> {
+        const showtime = await this.showtimeRepository.findById(showtimeId);
+        if (!showtime) {
+            throw new HttpError("Showtime not found", HTTP_STATUS_CODES.NOT_FOUND);
+        }
+
+        const [capacity, sold, checkedIn, reserved] = await Promise.all([
+            Seat.countDocuments({ showtimeId, isActive: true }),
+            Seat.countDocuments({ showtimeId, status: "booked" }),
+            Seat.countDocuments({ showtimeId, status: "booked", checkedInAt: { $exists: true } }),
+            Seat.countDocuments({ showtimeId, status: "reserved" })
+        ]);
+
+        return {
+            showtimeId,
+            capacity,
+            sold,
+            checkedIn,
+            notCheckedIn: sold - checkedIn,
+            reserved
+        };
+    }
+}
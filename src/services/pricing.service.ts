@@ -0,0 +1,277 @@
+import mongoose from "mongoose";
+import { PricingRule, IPricingRule, SeatType } from "../models/pricingRule.model";
+import { IShowtime, IPriceAdjustment } from "../models/showtime.model";
+import { IBookingLineItem } from "../models/booking.model";
+import { Screen } from "../models/screen.model";
+import { Seat } from "../models/seat.model";
+import { ShowtimeRepository } from "../patterns/repository/ShowtimeRepository";
+import { PRICING_TIMEZONE } from "../config/pricing";
+import { HttpError } from "../utils/errors";
+import { toIdString } from "../utils/mongo";
+import { HTTP_STATUS_CODES } from "../httpStatus/httpStatusCode";
+
+const SEAT_TYPES: SeatType[] = ["standard", "premium", "vip"];
+
+type SeatPrices = { standard: number; premium: number; vip: number };
+
+// Một quy tắc đã làm thay đổi giá của một loại ghế
+export interface PriceAdjustmentLine {
+    ruleId: string;
+    name: string;
+    stage: "showtime" | "booking";
+    amount: number;
+}
+
+export interface SeatPriceLine {
+    seatType: string;
+    basePrice: number;
+    adjustments: PriceAdjustmentLine[];
+    price: number;
+}
+
+// Giá của từng loại ghế và từng ghế trong một suất chiếu tại một thời điểm
+export interface PriceBreakdown {
+    showtimeId: string;
+    evaluatedAt: Date;
+    timezone: string;
+    seatTypes: SeatPriceLine[];
+    seats: (Partial<SeatPriceLine> & { seatId: string; row: string; number: number })[];
+}
+
+// Giá đã chốt của từng ghế trong một đặt chỗ
+export interface BookingPriceItem extends Pick<IBookingLineItem, "seatType" | "category" | "basePrice" | "adjustments" | "seatPrice" | "discounts" | "fees" | "finalPrice"> {
+    seatId: string;
+    row?: string;
+    number?: number;
+}
+
+// Giá của một đặt chỗ theo từng ghế và theo đối tượng khán giả
+export interface BookingPriceBreakdown {
+    items: BookingPriceItem[];
+    categories: { category: string; label: string; count: number; amount: number }[];
+    subtotalAmount: number;
+    discountAmount: number;
+    feeAmount: number;
+    totalAmount: number;
+}
+
+export class PricingService {
+    private showtimeRepository: ShowtimeRepository;
+    private timeFormatter: Intl.DateTimeFormat;
+
+    constructor() {
+        this.showtimeRepository = new ShowtimeRepository();
+        this.timeFormatter = new Intl.DateTimeFormat("en-US", {
+            timeZone: PRICING_TIMEZONE,
+            weekday: "short",
+            year: "numeric",
+            month: "2-digit",
+            day: "2-digit",
+            hour: "2-digit",
+            minute: "2-digit",
+            hourCycle: "h23"
+        });
+    }
+
+    async getAllRules(): Promise<IPricingRule[]> {
+        return await PricingRule.find().sort({ priority: 1, createdAt: 1 });
+    }
+
+    async getRuleById(id: string): Promise<IPricingRule | null> {
+        return await PricingRule.findById(id);
+    }
+
+    async createRule(ruleData: Partial<IPricingRule>): Promise<IPricingRule> {
+        if (!ruleData.name || !ruleData.adjustmentType || ruleData.adjustmentValue === undefined) {
+            throw new Error("Missing required pricing rule information");
+        }
+
+        const rule = new PricingRule(ruleData);
+        return await rule.save();
+    }
+
+    async updateRule(id: string, ruleData: Partial<IPricingRule>): Promise<IPricingRule | null> {
+        return await PricingRule.findByIdAndUpdate(
+            id,
+            { $set: ruleData },
+            { new: true, runValidators: true }
+        );
+    }
+
+    async deleteRule(id: string): Promise<void> {
+        await PricingRule.findByIdAndDelete(id);
+    }
+
+    // Tính giá của suất chiếu từ giá gốc với các quy tắc theo ngày, giờ, loại phòng và ngày lễ
+    async priceShowtime(basePrice: SeatPrices, startTime: Date, screenType: string): Promise<{ price: SeatPrices; pricingAdjustments: IPriceAdjustment[] }> {
+        const rules = (await this.getActiveRules()).filter(rule =>
+            rule.conditions?.minLeadHours === undefined && this.matchesShowtime(rule, startTime, screenType)
+        );
+
+        const price = { ...basePrice };
+        const pricingAdjustments: IPriceAdjustment[] = [];
+
+        for (const seatType of SEAT_TYPES) {
+            const result = this.applyRules(rules, seatType, basePrice[seatType], "showtime");
+            price[seatType] = result.price;
+            pricingAdjustments.push(...result.adjustments.map(adjustment => ({
+                ruleId: new mongoose.Types.ObjectId(adjustment.ruleId),
+                name: adjustment.name,
+                seatType,
+                amount: adjustment.amount
+            })));
+        }
+
+        return { price, pricingAdjustments };
+    }
+
+    // Giá từng ghế lúc đặt chỗ: giá của suất chiếu cộng các quy tắc chỉ xét lúc đặt (vd. đặt vé sớm)
+    async priceSeats(showtime: IShowtime, seatTypes: string[], at: Date = new Date()): Promise<SeatPriceLine[]> {
+        const screenType = await this.getScreenType(showtime);
+        const startTime = new Date(showtime.startTime);
+        const leadHours = (startTime.getTime() - at.getTime()) / (60 * 60 * 1000);
+
+        const bookingRules = (await this.getActiveRules()).filter(rule =>
+            rule.conditions?.minLeadHours !== undefined
+            && leadHours >= rule.conditions.minLeadHours
+            && this.matchesShowtime(rule, startTime, screenType)
+        );
+
+        return seatTypes.map(seatType => {
+            const showtimePrice = showtime.price[seatType as SeatType];
+            if (showtimePrice === undefined) {
+                throw new Error(`Loại vé ${seatType} không được hỗ trợ.`);
+            }
+
+            // Suất chiếu cũ không có basePrice: giá đã nhập chính là giá gốc
+            const basePrice = showtime.basePrice?.[seatType as SeatType] ?? showtimePrice;
+            const showtimeAdjustments: PriceAdjustmentLine[] = (showtime.pricingAdjustments || [])
+                .filter(adjustment => adjustment.seatType === seatType)
+                .map(adjustment => ({
+                    ruleId: toIdString(adjustment.ruleId),
+                    name: adjustment.name,
+                    stage: "showtime",
+                    amount: adjustment.amount
+                }));
+
+            const result = this.applyRules(bookingRules, seatType, showtimePrice, "booking");
+
+            return {
+                seatType,
+                basePrice,
+                adjustments: [...showtimeAdjustments, ...result.adjustments],
+                price: result.price
+            };
+        });
+    }
+
+    // Giải thích giá của từng ghế trong suất chiếu nếu đặt vào thời điểm at
+    async getPriceBreakdown(showtimeId: string, at: Date = new Date()): Promise<PriceBreakdown> {
+        const showtime = await this.showtimeRepository.findById(showtimeId);
+        if (!showtime) {
+            throw new HttpError("Showtime not found", HTTP_STATUS_CODES.NOT_FOUND);
+        }
+
+        const seats = await Seat.find({ showtimeId, isActive: true }).sort({ row: 1, seatNumber: 1 });
+        const lines = await this.priceSeats(showtime, SEAT_TYPES, at);
+        const lineByType = new Map(lines.map(line => [line.seatType, line]));
+
+        return {
+            showtimeId,
+            evaluatedAt: at,
+            timezone: PRICING_TIMEZONE,
+            seatTypes: lines,
+            seats: seats.map(seat => ({
+                seatId: seat.id,
+                row: seat.row,
+                number: seat.seatNumber,
+                ...lineByType.get(seat.seatType)
+            }))
+        };
+    }
+
+    private async getActiveRules(): Promise<IPricingRule[]> {
+        return await PricingRule.find({ isActive: true }).sort({ priority: 1, createdAt: 1 });
+    }
+
+    private async getScreenType(showtime: IShowtime): Promise<string> {
+        const populatedType = (showtime.screenId as any)?.screenType;
+        if (populatedType) {
+            return populatedType;
+        }
+
+        const screen = await Screen.findById(toIdString(showtime.screenId)).select("screenType");
+        return screen?.screenType || "standard";
+    }
+
+    // Áp dụng lần lượt các quy tắc khớp loại ghế; phần trăm tính trên giá hiện tại, giá không âm
+    private applyRules(rules: IPricingRule[], seatType: string, startPrice: number, stage: "showtime" | "booking"): { price: number; adjustments: PriceAdjustmentLine[] } {
+        let price = startPrice;
+        const adjustments: PriceAdjustmentLine[] = [];
+
+        for (const rule of rules) {
+            if (rule.seatTypes.length > 0 && !rule.seatTypes.includes(seatType as SeatType)) {
+                continue;
+            }
+
+            const delta = rule.adjustmentType === "percent"
+                ? price * (rule.adjustmentValue / 100)
+                : rule.adjustmentValue;
+            const nextPrice = Math.max(0, Math.round(price + delta));
+
+            if (nextPrice !== price) {
+                adjustments.push({ ruleId: rule.id, name: rule.name, stage, amount: nextPrice - price });
+                price = nextPrice;
+            }
+        }
+
+        return { price, adjustments };
+    }
+
+    private matchesShowtime(rule: IPricingRule, startTime: Date, screenType: string): boolean {
+        const conditions = rule.conditions || ({} as IPricingRule["conditions"]);
+        const local = this.getLocalTime(startTime);
+
+        if (conditions.daysOfWeek?.length && !conditions.daysOfWeek.includes(local.dayOfWeek)) {
+            return false;
+        }
+
+        if (conditions.dates?.length && !conditions.dates.includes(local.date)) {
+            return false;
+        }
+
+        if (conditions.screenTypes?.length && !conditions.screenTypes.includes(screenType)) {
+            return false;
+        }
+
+        const { startTime: from, endTime: until } = conditions;
+        // Khung giờ như 22:00-02:00 kéo qua nửa đêm: khớp nếu sau giờ bắt đầu hoặc trước giờ kết thúc
+        if (from && until && from > until) {
+            return local.time >= from || local.time < until;
+        }
+
+        if (from && local.time < from) {
+            return false;
+        }
+
+        if (until && local.time >= until) {
+            return false;
+        }
+
+        return true;
+    }
+
+    // Ngày trong tuần, ngày "YYYY-MM-DD" và giờ "HH:mm" theo múi giờ định giá
+    getLocalTime(date: Date): { dayOfWeek: number; date: string; time: string } {
+        const parts = Object.fromEntries(
+            this.timeFormatter.formatToParts(date).map(part => [part.type, part.value])
+        );
+        const weekdays = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+        return {
+            dayOfWeek: weekdays.indexOf(parts.weekday),
+            date: `${parts.year}-${parts.month}-${parts.day}`,
+            time: `${parts.hour}:${parts.minute}`
+        };
+    }
+}
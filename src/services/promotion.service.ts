@@ -0,0 +1,209 @@
+import mongoose, { ClientSession } from "mongoose";
+import { Promotion, IPromotion } from "../models/promotion.model";
+import { Booking } from "../models/booking.model";
+import { IShowtime } from "../models/showtime.model";
+import { Ticket } from "../patterns/factory/TicketFactory";
+import { HttpError } from "../utils/errors";
+import { toIdString } from "../utils/mongo";
+import { HTTP_STATUS_CODES } from "../httpStatus/httpStatusCode";
+
+// Một vé trong đặt chỗ cùng loại ghế của nó
+export interface PricedTicket {
+    seatType: string;
+    ticket: Ticket;
+}
+
+export class PromotionService {
+    async getAllPromotions(): Promise<IPromotion[]> {
+        return await Promotion.find().sort({ createdAt: -1 });
+    }
+
+    async getPromotionById(id: string): Promise<IPromotion | null> {
+        return await Promotion.findById(id);
+    }
+
+    async createPromotion(promotionData: Partial<IPromotion>): Promise<IPromotion> {
+        if (!promotionData.code || !promotionData.discountType || promotionData.discountValue === undefined
+            || !promotionData.validFrom || !promotionData.validUntil) {
+            throw new Error("Missing required promotion information");
+        }
+
+        // usedCount chỉ được thay đổi khi đặt chỗ dùng mã
+        const promotion = new Promotion({ ...promotionData, usedCount: 0 });
+        return await promotion.save();
+    }
+
+    async updatePromotion(id: string, promotionData: Partial<IPromotion>): Promise<IPromotion | null> {
+        const promotion = await Promotion.findById(id);
+        if (!promotion) {
+            return null;
+        }
+
+        const { usedCount, ...changes }: Partial<IPromotion> = promotionData;
+        promotion.set(changes);
+        // save() thay vì findByIdAndUpdate để chạy lại validation giữa các trường
+        return await promotion.save();
+    }
+
+    async deletePromotion(id: string): Promise<void> {
+        const promotion = await Promotion.findById(id);
+        if (!promotion) {
+            return;
+        }
+
+        // Mã đã được dùng thì chỉ vô hiệu hóa để giữ lịch sử đặt chỗ
+        if (promotion.usedCount > 0 || await Booking.exists({ "discount.promotionId": promotion._id })) {
+            await Promotion.findByIdAndUpdate(id, { isActive: false });
+        } else {
+            await Promotion.findByIdAndDelete(id);
+        }
+    }
+
+    // Tìm mã và kiểm tra điều kiện áp dụng cho đặt chỗ; ném HttpError nếu không áp dụng được
+    async findApplicablePromotion(
+        code: string,
+        showtime: IShowtime,
+        tickets: PricedTicket[],
+        subtotal: number,
+        now: Date = new Date()
+    ): Promise<IPromotion> {
+        // code đến thẳng từ body của request
+        if (typeof code !== "string" || !code.trim()) {
+            throw new HttpError("Promotion code must be a non-empty string", HTTP_STATUS_CODES.BAD_REQUEST);
+        }
+
+        const promotion = await Promotion.findOne({ code: code.trim().toUpperCase(), isActive: true });
+        if (!promotion) {
+            throw new HttpError("Promotion code not found", HTTP_STATUS_CODES.NOT_FOUND);
+        }
+
+        if (now < promotion.validFrom || now > promotion.validUntil) {
+            throw new HttpError("Promotion code is not valid at this time", HTTP_STATUS_CODES.BAD_REQUEST);
+        }
+
+        if (promotion.maxUses && promotion.usedCount >= promotion.maxUses) {
+            throw new HttpError("Promotion code has reached its usage limit", HTTP_STATUS_CODES.CONFLICT);
+        }
+
+        if (subtotal < promotion.minSpend) {
+            throw new HttpError(
+                `Promotion code requires a minimum spend of ${promotion.minSpend}`,
+                HTTP_STATUS_CODES.BAD_REQUEST
+            );
+        }
+
+        const movieId = toIdString(showtime.movieId);
+        if (promotion.eligibleMovies.length > 0 && !promotion.eligibleMovies.some(id => id.toString() === movieId)) {
+            throw new HttpError("Promotion code is not valid for this movie", HTTP_STATUS_CODES.BAD_REQUEST);
+        }
+
+        const theaterId = toIdString((showtime.screenId as any)?.theaterId);
+        if (promotion.eligibleTheaters.length > 0 && !promotion.eligibleTheaters.some(id => id.toString() === theaterId)) {
+            throw new HttpError("Promotion code is not valid at this theater", HTTP_STATUS_CODES.BAD_REQUEST);
+        }
+
+        if (!tickets.some(item => this.isEligibleSeatType(promotion, item.seatType))) {
+            throw new HttpError("Promotion code is not valid for the selected seats", HTTP_STATUS_CODES.BAD_REQUEST);
+        }
+
+        return promotion;
+    }
+
+    // Mã đã dùng cho một đặt chỗ được giữ lại khi đổi ghế nếu vẫn hợp lệ với suất chiếu và ghế mới;
+    // không kiểm tra lại thời hạn và số lượt dùng vì lượt dùng đã được ghi nhận
+    async findCarriedOverPromotion(
+        promotionId: mongoose.Types.ObjectId,
+        showtime: IShowtime,
+        tickets: PricedTicket[]
+    ): Promise<IPromotion | null> {
+        const promotion = await Promotion.findById(promotionId);
+        if (!promotion) {
+            return null;
+        }
+
+        const movieId = toIdString(showtime.movieId);
+        if (promotion.eligibleMovies.length > 0 && !promotion.eligibleMovies.some(id => id.toString() === movieId)) {
+            return null;
+        }
+
+        const theaterId = toIdString((showtime.screenId as any)?.theaterId);
+        if (promotion.eligibleTheaters.length > 0 && !promotion.eligibleTheaters.some(id => id.toString() === theaterId)) {
+            return null;
+        }
+
+        const subtotal = tickets.reduce((sum, item) => sum + item.ticket.price, 0);
+        if (subtotal < promotion.minSpend || !tickets.some(item => this.isEligibleSeatType(promotion, item.seatType))) {
+            return null;
+        }
+
+        return promotion;
+    }
+
+    // Lý do mã đã áp dụng không còn hợp lệ nếu đặt chỗ chỉ còn lại các vé này; null nếu vẫn hợp lệ
+    async checkRemainingTickets(promotionId: mongoose.Types.ObjectId, tickets: PricedTicket[]): Promise<string | null> {
+        const promotion = await Promotion.findById(promotionId);
+        if (!promotion) {
+            return null;
+        }
+
+        const subtotal = tickets.reduce((sum, item) => sum + item.ticket.price, 0);
+        if (subtotal < promotion.minSpend) {
+            return `Promotion code ${promotion.code} requires a minimum spend of ${promotion.minSpend}`;
+        }
+        if (!tickets.some(item => this.isEligibleSeatType(promotion, item.seatType))) {
+            return `Promotion code ${promotion.code} is not valid for the remaining seats`;
+        }
+
+        return null;
+    }
+
+    // Giảm giá từng vé hợp lệ qua Ticket.applyDiscount (vé VIP tự giới hạn mức giảm); trả về số tiền đã giảm
+    applyToTickets(promotion: IPromotion, tickets: PricedTicket[]): number {
+        const eligible = tickets.filter(item => this.isEligibleSeatType(promotion, item.seatType));
+        const eligibleSubtotal = eligible.reduce((sum, item) => sum + item.ticket.price, 0);
+        if (eligibleSubtotal <= 0) {
+            return 0;
+        }
+
+        // Giảm số tiền cố định được chia đều theo tỷ lệ giá vé
+        const percentage = promotion.discountType === "percent"
+            ? promotion.discountValue
+            : Math.min(100, (promotion.discountValue / eligibleSubtotal) * 100);
+
+        for (const item of eligible) {
+            item.ticket.applyDiscount(percentage);
+            item.ticket.price = Math.round(item.ticket.price);
+        }
+
+        return eligibleSubtotal - eligible.reduce((sum, item) => sum + item.ticket.price, 0);
+    }
+
+    // Ghi nhận một lượt dùng mã trong transaction đặt chỗ; giới hạn tổng được kiểm tra nguyên tử
+    async redeem(promotion: IPromotion, userId: string, session: ClientSession): Promise<void> {
+        if (promotion.maxUsesPerUser) {
+            const userUses = await Booking.countDocuments({
+                "discount.promotionId": promotion._id,
+                userId: new mongoose.Types.ObjectId(userId),
+                bookingStatus: { $ne: "cancelled" }
+            }).session(session);
+
+            if (userUses >= promotion.maxUsesPerUser) {
+                throw new HttpError("You have already used this promotion code", HTTP_STATUS_CODES.CONFLICT);
+            }
+        }
+
+        const filter: Record<string, any> = { _id: promotion._id, isActive: true };
+        if (promotion.maxUses) {
+            filter.usedCount = { $lt: promotion.maxUses };
+        }
+
+        const result = await Promotion.updateOne(filter, { $inc: { usedCount: 1 } }, { session });
+        if (result.modifiedCount === 0) {
+            throw new HttpError("Promotion code has reached its usage limit", HTTP_STATUS_CODES.CONFLICT);
+        }
+    }
+
+    private isEligibleSeatType(promotion: IPromotion, seatType: string): boolean {
+        return promotion.eligibleSeatTypes.length === 0 || promotion.eligibleSeatTypes.includes(seatType as any);
+    }
+}
@@ -0,0 +1,81 @@
+// Nhắc người dùng về các suất chiếu sắp bắt đầu
+
+import { BookingRepository } from '../patterns/repository/BookingRepository';
+import { ShowtimeRepository } from '../patterns/repository/ShowtimeRepository';
+import { NotificationService, NotificationData } from '../patterns/observer/NotificationSystem';
+import { UserService } from './user.service';
+import { toIdString } from '../utils/mongo';
+
+// Gửi nhắc nhở trước giờ chiếu bao nhiêu phút
+const REMINDER_LEAD_MINUTES = Number(process.env.SHOWTIME_REMINDER_MINUTES) || 120;
+
+export class ReminderService {
+  private bookingRepository: BookingRepository;
+  private showtimeRepository: ShowtimeRepository;
+  private userService: UserService;
+  private notificationService: NotificationService;
+
+  constructor() {
+    this.bookingRepository = new BookingRepository();
+    this.showtimeRepository = new ShowtimeRepository();
+    this.userService = new UserService();
+    this.notificationService = NotificationService.getInstance();
+  }
+
+  async sendUpcomingShowtimeReminders(now: Date = new Date()): Promise<number> {
+    const until = new Date(now.getTime() + REMINDER_LEAD_MINUTES * 60 * 1000);
+    const showtimes = await this.showtimeRepository.findByDateRange(now, until);
+    if (showtimes.length === 0) {
+      return 0;
+    }
+
+    const showtimesById = new Map(showtimes.map(showtime => [toIdString(showtime._id), showtime]));
+    const bookings = await this.bookingRepository.findUnremindedByShowtimes(Array.from(showtimesById.keys()));
+    let sentCount = 0;
+
+    for (const booking of bookings) {
+      const bookingId = toIdString(booking._id);
+
+      // Look the user up before claiming: a missing user leaves the reminder unclaimed for the next run
+      let user;
+      try {
+        user = await this.userService.getUserById(toIdString(booking.userId));
+      } catch (error) {
+        console.error(`Failed to load the user for reminder of booking ${bookingId}:`, error);
+        continue;
+      }
+
+      // Claim the reminder first so two instances never send it twice
+      const claimed = await this.bookingRepository.markReminderSent(bookingId);
+      if (!claimed) {
+        continue;
+      }
+
+      try {
+        const showtime = showtimesById.get(toIdString(booking.showtimeId));
+
+        const notificationData: NotificationData = {
+          userId: user.id.toString(),
+          email: user.email,
+          phone: user.phone,
+          bookingId,
+          movieTitle: showtime?.movieId ? (showtime.movieId as any).title : 'Movie',
+          theaterName: showtime?.screenId ?
+            ((showtime.screenId as any).theaterId ? (showtime.screenId as any).theaterId.name : 'Theater')
+            : 'Theater',
+          showtime: showtime?.startTime,
+          seats: booking.seats.map(seat => toIdString(seat))
+        };
+
+        await this.notificationService.notify('booking.reminder', notificationData);
+        sentCount++;
+      } catch (error) {
+        console.error(`Failed to send reminder for booking ${bookingId}:`, error);
+        // Give the claim back so the next run tries again
+        await this.bookingRepository.releaseReminderClaim(bookingId);
+      }
+    }
+
+    return sentCount;
+  }
+}
@@ -1,9 +1,14 @@
 import { Screen } from "../models/screen.model";
-import { Seat } from "../models/seat.model";
+import { SeatLayout, ISeatLayout, ILayoutSeat, fillGridPositions, validateLayoutSeats, compareRowLabels } from "../models/seatLayout.model";
 import { Showtime } from "../models/showtime.model";
+import { SeatLayoutService } from "./seatLayout.service";
 import mongoose from "mongoose";
+import { HttpError } from "../utils/errors";
+import { HTTP_STATUS_CODES } from "../httpStatus/httpStatusCode";
 
 export class ScreenService {
+    private seatLayoutService = new SeatLayoutService();
+
     async getAllScreens(): Promise<any> {
         return await Screen.find({ isActive: true }).populate("theaterId");
     }
@@ -45,17 +50,17 @@ export class ScreenService {
             // Just mark as inactive instead of deleting
             await Screen.findByIdAndUpdate(id, { isActive: false });
         } else {
-            // No future showtimes, can safely delete
+            // No future showtimes, can safely delete.
+            // Ghế của các suất chiếu đã qua vẫn được giữ vì còn gắn với đặt chỗ
             await Screen.findByIdAndDelete(id);
-            await Seat.deleteMany({ screenId: id });
+            await SeatLayout.deleteMany({ screenId: id });
         }
     }
 
-    async getScreenSeats(id: string): Promise<any> {
-        const seats = await Seat.find({ screenId: id, isActive: true }).sort({
-            row: 1,
-            seatNumber: 1,
-        });
+    // Sơ đồ hiện tại, hoặc một phiên bản cụ thể nếu truyền version
+    async getScreenSeats(id: string, version?: number): Promise<any> {
+        const layout = await this.seatLayoutService.getLayout(id, version);
+        const seats = (layout?.seats || []).filter((seat) => seat.isActive);
 
         // Group seats by row
         const seatsByRow: { [key: string]: any[] } = {};
@@ -65,53 +70,56 @@ export class ScreenService {
                 seatsByRow[seat.row] = [];
             }
             seatsByRow[seat.row].push({
-                id: seat._id,
+                // Ghế trong sơ đồ được nhận diện bằng hàng và số ghế
+                id: `${seat.row}-${seat.seatNumber}`,
                 row: seat.row,
                 number: seat.seatNumber,
                 type: seat.seatType,
+                kind: seat.kind || "regular",
+                x: seat.x,
+                y: seat.y,
+                groupId: seat.groupId,
             });
         });
 
         // Convert to array and sort by row
         return Object.keys(seatsByRow)
-            .sort()
+            .sort(compareRowLabels)
             .map((row) => ({
                 row,
                 seats: seatsByRow[row].sort((a, b) => a.number - b.number),
             }));
     }
 
-    async updateScreenSeats(id: string, seats: any[]): Promise<number> {
+    // Tạo phiên bản sơ đồ mới; các suất chiếu đã tạo giữ phiên bản cũ cho tới khi được chuyển (propagate)
+    async updateScreenSeats(id: string, seats: any[]): Promise<ISeatLayout> {
         if (!Array.isArray(seats)) {
             throw new Error("Seats must be an array");
         }
 
-        const session = await mongoose.startSession();
-        session.startTransaction();
-
-        try {
-            // Delete existing seats
-            await Seat.deleteMany({ screenId: id }, { session });
-
-            // Create new seats
-            const seatsToInsert = seats.map((seat) => ({
-                screenId: id,
-                row: seat.row,
-                seatNumber: seat.number,
-                seatType: seat.type || "standard",
-                isActive: true,
-            }));
+        const screen = await Screen.findById(id).select("_id");
+        if (!screen) {
+            throw new Error("Screen not found");
+        }
 
-            await Seat.insertMany(seatsToInsert, { session });
+        const layoutSeats: ILayoutSeat[] = seats.map((seat) => ({
+            row: seat.row,
+            seatNumber: seat.number,
+            seatType: seat.type || "standard",
+            kind: seat.kind || "regular",
+            x: seat.x,
+            y: seat.y,
+            groupId: seat.groupId || undefined,
+            isActive: true,
+        }));
 
-            await session.commitTransaction();
-            return seatsToInsert.length;
-        } catch (error) {
-            await session.abortTransaction();
-            throw error;
-        } finally {
-            session.endSession();
+        fillGridPositions(layoutSeats);
+        const errors = validateLayoutSeats(layoutSeats);
+        if (errors.length > 0) {
+            throw new HttpError("Invalid seat layout", HTTP_STATUS_CODES.BAD_REQUEST, { errors });
         }
+
+        return await this.seatLayoutService.createVersion(id, layoutSeats);
     }
 
     private async createDefaultSeats(screenId: mongoose.Types.ObjectId, capacity: number): Promise<void> {
@@ -120,13 +128,13 @@ export class ScreenService {
         const requiredRows = Math.ceil(capacity / seatsPerRow);
         const rowsToUse = rows.slice(0, requiredRows);
 
-        const seats = [];
+        const seats: ILayoutSeat[] = [];
 
         for (const row of rowsToUse) {
             const seatType = row === "A" || row === "B" ? "premium" : "standard";
-            for (let seatNumber = 1; seatNumber <= seatsPerRow; seatNumber++) {
+            // Hàng cuối chỉ có số ghế còn lại để tổng số ghế đúng bằng sức chứa
+            for (let seatNumber = 1; seatNumber <= seatsPerRow && seats.length < capacity; seatNumber++) {
                 seats.push({
-                    screenId,
                     row,
                     seatNumber,
                     seatType,
@@ -135,6 +143,6 @@ export class ScreenService {
             }
         }
 
-        await Seat.insertMany(seats);
+        await this.seatLayoutService.createVersion(screenId.toString(), seats);
     }
 }
\ No newline at end of file
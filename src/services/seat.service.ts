@@ -1,5 +1,21 @@
+import crypto from "crypto";
 import { Seat, ISeat } from "../models/seat.model";
-import socketService from "../socket/socket.service";
+import { Showtime } from "../models/showtime.model";
+import { HOLD_POLICY, computeHoldExpiry } from "../config/holdPolicy";
+import socketService, { SeatDiff } from "../socket/socket.service";
+import { HttpError } from "../utils/errors";
+import { HTTP_STATUS_CODES } from "../httpStatus/httpStatusCode";
+
+export interface SeatRequester {
+    userId: string;
+    role?: string;
+}
+
+// Nhóm ghế (vd. ghế đôi) chỉ được chọn một phần
+export interface IncompleteSeatGroup {
+    groupId: string;
+    missingSeatIds: string[];
+}
 
 export class SeatService {
     static async getAllSeats(): Promise<ISeat[]> {
@@ -18,11 +34,46 @@ export class SeatService {
         return await Seat.create(data);
     }
 
+    // Ghế trong cùng nhóm phải được bán cùng nhau: trả về các nhóm mà seatIds chỉ chứa một phần
+    static async findIncompleteGroups(showtimeId: string, seatIds: string[]): Promise<IncompleteSeatGroup[]> {
+        const selected = await Seat.find({ _id: { $in: seatIds }, showtimeId, groupId: { $exists: true } }).select('groupId');
+        const groupIds = [...new Set(selected.map(seat => seat.groupId!))];
+        if (groupIds.length === 0) {
+            return [];
+        }
+
+        const members = await Seat.find({ showtimeId, groupId: { $in: groupIds }, isActive: true }).select('_id groupId');
+
+        return groupIds
+            .map(groupId => ({
+                groupId,
+                missingSeatIds: members
+                    .filter(seat => seat.groupId === groupId && !seatIds.includes(seat.id))
+                    .map(seat => seat.id as string)
+            }))
+            .filter(group => group.missingSeatIds.length > 0);
+    }
+
+    // Tạo diff ghế cho sự kiện seats_updated; oldStatus mặc định là trạng thái hiện tại của ghế
+    static toSeatDiffs(seats: ISeat[], newStatus: string, oldStatus?: string): SeatDiff[] {
+        return seats.map(seat => ({
+            seatId: seat.id,
+            row: seat.row,
+            number: seat.seatNumber,
+            oldStatus: oldStatus || seat.status,
+            newStatus
+        }));
+    }
+
     static async updateSeat(id: string, data: Partial<ISeat>): Promise<ISeat | null> {
+        const previousSeat = await Seat.findById(id);
         const updatedSeat = await Seat.findByIdAndUpdate(id, data, { new: true });
 
-        if (updatedSeat && updatedSeat.showtimeId) {
-            socketService.notifySeatsUpdated(updatedSeat.showtimeId.toString());
+        if (previousSeat && updatedSeat && updatedSeat.showtimeId) {
+            socketService.notifySeatsUpdated(
+                updatedSeat.showtimeId.toString(),
+                this.toSeatDiffs([updatedSeat], updatedSeat.status, previousSeat.status)
+            );
         }
 
         return updatedSeat;
@@ -32,85 +83,212 @@ export class SeatService {
         return await Seat.findByIdAndDelete(id);
     }
 
-    static async reserveSeat(seatId: string, showtimeId: string): Promise<ISeat | null> {
-        const seat = await Seat.findOne({ _id: seatId, showtimeId });
-
-        if (!seat) {
+    static async reserveSeat(seatId: string, userId: string): Promise<{ seat: ISeat; holdToken: string } | null> {
+        const existing = await Seat.findById(seatId);
+        if (!existing) {
             return null;
         }
 
-        if (seat.status !== 'available') {
-            throw new Error("Seat is already reserved");
+        const showtime = await Showtime.findById(existing.showtimeId).select('holdDurationMinutes startTime isActive');
+        if (!showtime || !showtime.isActive) {
+            throw new HttpError("This showtime is no longer available", HTTP_STATUS_CODES.CONFLICT);
+        }
+        if (new Date(showtime.startTime) <= new Date()) {
+            throw new HttpError("This showtime has already started", HTTP_STATUS_CODES.CONFLICT);
         }
+        if (!existing.isActive) {
+            throw new HttpError("Seat is not available", HTTP_STATUS_CODES.CONFLICT);
+        }
+
+        const holdToken = crypto.randomBytes(24).toString("hex");
 
-        seat.status = 'reserved';
-        seat.expiresAt = new Date(Date.now() + 15 * 60 * 1000);
+        const seat = await Seat.findOneAndUpdate(
+            { _id: seatId, status: 'available', isActive: true },
+            {
+                status: 'reserved',
+                heldBy: userId,
+                holdToken,
+                holdExtensions: 0,
+                expiresAt: computeHoldExpiry(showtime)
+            },
+            { new: true }
+        );
 
-        const updatedSeat = await seat.save();
+        if (!seat) {
+            throw new HttpError("Seat is already reserved", HTTP_STATUS_CODES.CONFLICT);
+        }
 
-        socketService.notifySeatsUpdated(showtimeId);
+        socketService.notifySeatsUpdated(seat.showtimeId.toString(), this.toSeatDiffs([seat], 'reserved', 'available'));
 
-        return updatedSeat;
+        return { seat, holdToken };
     }
 
-    static async bookSeat(seatId: string, showtimeId: string, bookingId: string): Promise<ISeat | null> {
+    static async extendHold(seatId: string, requester: SeatRequester): Promise<ISeat | null> {
         const seat = await Seat.findOneAndUpdate(
-            { _id: seatId, showtimeId },
             {
-                status: 'booked',
-                bookingId,
-                $unset: { expiresAt: 1 }
+                ...this.holdFilter(seatId, requester),
+                $or: [
+                    { holdExtensions: { $lt: HOLD_POLICY.maxExtensions } },
+                    { holdExtensions: { $exists: false } }
+                ]
             },
+            [{
+                $set: {
+                    expiresAt: { $add: ['$expiresAt', HOLD_POLICY.extensionMinutes * 60 * 1000] },
+                    holdExtensions: { $add: [{ $ifNull: ['$holdExtensions', 0] }, 1] }
+                }
+            }],
             { new: true }
         );
 
-        if (seat) {
-            // Notify via Socket.io about seats update
-            socketService.notifySeatsUpdated(showtimeId);
+        if (!seat) {
+            const current = await Seat.findOne(this.holdFilter(seatId, requester));
+            if (current) {
+                throw new HttpError("Maximum number of hold extensions reached", HTTP_STATUS_CODES.CONFLICT);
+            }
+            return await this.rejectHoldAccess(seatId);
         }
 
         return seat;
     }
 
-    static async releaseSeat(seatId: string, showtimeId: string): Promise<ISeat | null> {
+    static async bookSeat(seatId: string, holdToken: string, requester: SeatRequester): Promise<ISeat | null> {
         const seat = await Seat.findOneAndUpdate(
-            { _id: seatId, showtimeId },
+            { ...this.holdFilter(seatId, requester), holdToken },
             {
-                status: 'available',
-                $unset: { bookingId: 1, expiresAt: 1 }
+                status: 'booked',
+                $unset: { expiresAt: 1, holdToken: 1, holdExtensions: 1 }
             },
             { new: true }
         );
 
-        if (seat) {
-            // Notify via Socket.io about seats update
-            socketService.notifySeatsUpdated(showtimeId);
+        if (!seat) {
+            return await this.rejectHoldAccess(seatId, holdToken);
         }
 
+        // Notify via Socket.io about seats update
+        socketService.notifySeatsUpdated(seat.showtimeId.toString(), this.toSeatDiffs([seat], 'booked', 'reserved'));
+
         return seat;
     }
 
-    // Phương thức mới: Đánh dấu tất cả các ghế đã hết hạn là available
-    static async releaseExpiredSeats(): Promise<void> {
+    static async releaseSeat(seatId: string, requester: SeatRequester): Promise<ISeat | null> {
+        // Admin có thể giải phóng mọi ghế đang giữ, người dùng chỉ giải phóng ghế mình đang giữ.
+        // Ghế thuộc một booking phải được trả lại qua hủy ghế/hủy booking để cập nhật booking và hoàn tiền
+        // Lượt giữ đã hết hạn nhưng chưa được dọn vẫn được giải phóng
+        const filter = this.holdFilter(seatId, requester, false);
+
+        // Lấy bản ghi trước khi cập nhật để biết trạng thái cũ
+        const previousSeat = await Seat.findOneAndUpdate(
+            filter,
+            {
+                status: 'available',
+                $unset: { bookingId: 1, expiresAt: 1, heldBy: 1, holdToken: 1, holdExtensions: 1, checkedInAt: 1, checkedInBy: 1 }
+            },
+            { new: false }
+        );
+
+        if (!previousSeat) {
+            if (requester.role === 'admin' && await Seat.exists({ _id: seatId, bookingId: { $exists: true } })) {
+                throw new HttpError("Seat belongs to a booking; cancel the seat or the booking instead", HTTP_STATUS_CODES.CONFLICT);
+            }
+            return await this.rejectHoldAccess(seatId);
+        }
+
+        // Notify via Socket.io about seats update
+        socketService.notifySeatsUpdated(previousSeat.showtimeId.toString(), this.toSeatDiffs([previousSeat], 'available'));
+
+        return await Seat.findById(seatId);
+    }
+
+    // Ghế đang được giữ riêng lẻ (không thuộc booking nào) bởi chính người yêu cầu, hoặc bất kỳ ai nếu là admin;
+    // mặc định lượt giữ phải còn hạn, kể cả khi job dọn ghế chưa chạy
+    private static holdFilter(seatId: string, requester: SeatRequester, activeOnly: boolean = true): Record<string, any> {
+        const filter: Record<string, any> = {
+            _id: seatId,
+            status: 'reserved',
+            bookingId: { $exists: false }
+        };
+
+        if (activeOnly) {
+            filter.expiresAt = { $gt: new Date() };
+        }
+
+        if (requester.role !== 'admin') {
+            filter.heldBy = requester.userId;
+        }
+
+        return filter;
+    }
+
+    // Giải thích vì sao thao tác trên ghế đang giữ thất bại
+    private static async rejectHoldAccess(seatId: string, holdToken?: string): Promise<null> {
+        const seat = await Seat.findById(seatId).select('+holdToken');
+        if (!seat) {
+            return null;
+        }
+
+        if (seat.status !== 'reserved' || seat.bookingId) {
+            throw new HttpError("Seat is not held", HTTP_STATUS_CODES.CONFLICT);
+        }
+
+        if (!seat.expiresAt || seat.expiresAt <= new Date()) {
+            throw new HttpError("Seat hold has expired", HTTP_STATUS_CODES.CONFLICT);
+        }
+
+        if (holdToken !== undefined && seat.holdToken !== holdToken) {
+            throw new HttpError("Invalid hold token", HTTP_STATUS_CODES.FORBIDDEN);
+        }
+
+        throw new HttpError("You are not the holder of this seat", HTTP_STATUS_CODES.FORBIDDEN);
+    }
+
+    // Đánh dấu tất cả các ghế đã hết hạn là available bằng một lệnh updateMany,
+    // sau đó gửi một sự kiện seats_updated cho mỗi suất chiếu bị ảnh hưởng
+    static async releaseExpiredSeats(): Promise<number> {
         const now = new Date();
-        const expiredSeats = await Seat.find({
+        // Ghế thuộc một booking được BookingExpiryJob giải phóng cùng với booking đó
+        const expiredFilter = {
             status: 'reserved',
+            bookingId: { $exists: false },
             expiresAt: { $lt: now }
-        });
-
-        for (const seat of expiredSeats) {
-            await Seat.updateOne(
-                { _id: seat._id },
-                {
-                    status: 'available',
-                    $unset: { bookingId: 1, expiresAt: 1 }
-                }
-            );
+        };
+
+        const expiredSeats = await Seat.find(expiredFilter).select('_id');
+        if (expiredSeats.length === 0) {
+            return 0;
+        }
+
+        const expiredSeatIds = expiredSeats.map(seat => seat._id);
 
-            if (seat.showtimeId) {
-                // Notify via Socket.io about seats update
-                socketService.notifySeatsUpdated(seat.showtimeId.toString());
+        await Seat.updateMany(
+            { ...expiredFilter, _id: { $in: expiredSeatIds } },
+            {
+                status: 'available',
+                $unset: { expiresAt: 1, heldBy: 1, holdToken: 1, holdExtensions: 1 }
+            }
+        );
+
+        // Chỉ báo những ghế thực sự đã được giải phóng (ghế vừa được gia hạn thì không đổi)
+        const releasedSeats = await Seat.find({
+            _id: { $in: expiredSeatIds },
+            status: 'available'
+        }).select('_id showtimeId row seatNumber status');
+
+        const changesByShowtime = new Map<string, SeatDiff[]>();
+        for (const seat of releasedSeats) {
+            const showtimeId = seat.showtimeId.toString();
+            if (!changesByShowtime.has(showtimeId)) {
+                changesByShowtime.set(showtimeId, []);
             }
+            changesByShowtime.get(showtimeId)!.push(...this.toSeatDiffs([seat], 'available', 'reserved'));
         }
+
+        for (const [showtimeId, changes] of changesByShowtime) {
+            // Notify via Socket.io about seats update
+            socketService.notifySeatsUpdated(showtimeId, changes);
+        }
+
+        return releasedSeats.length;
     }
 }
\ No newline at end of file
@@ -0,0 +1,595 @@
+import mongoose from "mongoose";
+import { SeatLayout, ISeatLayout, ILayoutSeat, SEAT_KINDS, fillGridPositions, validateLayoutSeats } from "../models/seatLayout.model";
+import { Screen } from "../models/screen.model";
+import { Seat, ISeat } from "../models/seat.model";
+import { Showtime, IShowtime } from "../models/showtime.model";
+import { HttpError } from "../utils/errors";
+import { HTTP_STATUS_CODES } from "../httpStatus/httpStatusCode";
+import socketService from "../socket/socket.service";
+
+const DUPLICATE_KEY_CODE = 11000;
+
+export interface InventorySeatRef {
+    seatId: string;
+    row: string;
+    seatNumber: number;
+}
+
+// Các thuộc tính ảnh hưởng tới giá hoặc cách bán ghế
+export interface SeatSaleAttributes {
+    seatType: string;
+    kind: string;
+    groupId: string | null;
+}
+
+export interface ChangedSeat extends InventorySeatRef {
+    from: SeatSaleAttributes;
+    to: SeatSaleAttributes;
+}
+
+// Chỉ đổi vị trí trên lưới, áp dụng được cả cho ghế đã bán
+export interface MovedSeat extends InventorySeatRef {
+    x?: number;
+    y?: number;
+}
+
+// Ghế đã được giữ hoặc đã bán nhưng phiên bản mới lại xóa hoặc đổi loại, nhóm của ghế đó
+export interface LayoutConflict extends InventorySeatRef {
+    change: "remove" | "change";
+    status: string;
+    bookingId?: string;
+}
+
+export interface ShowtimeLayoutPlan {
+    showtimeId: string;
+    startTime: Date;
+    fromVersion: number | null;
+    toVersion: number;
+    added: ILayoutSeat[];
+    removed: InventorySeatRef[];
+    changed: ChangedSeat[];
+    moved: MovedSeat[];
+    conflicts: LayoutConflict[];
+    canAdopt: boolean;
+}
+
+export interface LayoutPropagationPreview {
+    screenId: string;
+    version: number;
+    showtimes: ShowtimeLayoutPlan[];
+}
+
+export interface LayoutPropagationResult {
+    screenId: string;
+    version: number;
+    migrated: ShowtimeLayoutPlan[];
+    conflicts: ShowtimeLayoutPlan[];
+}
+
+export type LayoutFileFormat = "json" | "csv";
+
+export interface LayoutExport {
+    filename: string;
+    contentType: string;
+    content: string;
+}
+
+// Kết quả kiểm tra một file sơ đồ, kèm thay đổi so với sơ đồ hiện tại
+export interface LayoutImportReport {
+    valid: boolean;
+    dryRun: boolean;
+    errors: string[];
+    warnings: string[];
+    seatCount: number;
+    capacity: number;
+    currentVersion: number | null;
+    version: number | null;
+    added: string[];
+    removed: string[];
+    changed: string[];
+}
+
+const SEAT_TYPES = ["standard", "premium", "vip"];
+// Nhãn hàng là 1-3 chữ cái in hoa (A, B, ..., AA)
+const ROW_LABEL_PATTERN = /^[A-Z]{1,3}$/;
+
+const seatKey = (row: string, seatNumber: number): string => `${row}-${seatNumber}`;
+
+const isBlank = (value: unknown): boolean =>
+    value === undefined || value === null || (typeof value === "string" && value.trim() === "");
+
+// Giá trị đúng/sai trong file nhập, không phân biệt hoa thường; undefined nếu không nhận ra
+const BOOLEAN_VALUES = new Map<string, boolean>([
+    ["true", true], ["1", true], ["yes", true],
+    ["false", false], ["0", false], ["no", false],
+]);
+const parseBoolean = (value: unknown): boolean | undefined =>
+    typeof value === "boolean" ? value : BOOLEAN_VALUES.get(String(value).trim().toLowerCase());
+
+const toCsvField = (value: unknown): string => {
+    const text = value === undefined || value === null ? "" : String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// Đọc CSV đơn giản: dấu phẩy phân cách, hỗ trợ trường trong ngoặc kép
+const parseCsv = (text: string): string[][] => {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = "";
+    let quoted = false;
+
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+
+        if (quoted) {
+            if (char === '"' && text[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (char === '"') {
+                quoted = false;
+            } else {
+                field += char;
+            }
+        } else if (char === '"') {
+            quoted = true;
+        } else if (char === ",") {
+            row.push(field);
+            field = "";
+        } else if (char === "\n" || char === "\r") {
+            if (char === "\r" && text[i + 1] === "\n") i++;
+            row.push(field);
+            rows.push(row);
+            row = [];
+            field = "";
+        } else {
+            field += char;
+        }
+    }
+
+    if (field !== "" || row.length > 0) {
+        row.push(field);
+        rows.push(row);
+    }
+
+    return rows.filter((cells) => cells.some((cell) => cell.trim() !== ""));
+};
+
+export class SeatLayoutService {
+    async getCurrentLayout(screenId: string): Promise<ISeatLayout | null> {
+        return await SeatLayout.findOne({ screenId }).sort({ version: -1 });
+    }
+
+    async getLayout(screenId: string, version?: number): Promise<ISeatLayout | null> {
+        if (version === undefined) {
+            return await this.getCurrentLayout(screenId);
+        }
+
+        return await SeatLayout.findOne({ screenId, version });
+    }
+
+    async getVersions(screenId: string): Promise<{ version: number; seatCount: number; createdAt: Date }[]> {
+        const layouts = await SeatLayout.find({ screenId }).sort({ version: -1 });
+
+        return layouts.map((layout) => ({
+            version: layout.version,
+            seatCount: layout.seats.filter((seat) => seat.isActive).length,
+            createdAt: (layout as any).createdAt,
+        }));
+    }
+
+    // Sửa sơ đồ luôn tạo phiên bản mới; các suất chiếu đã tạo giữ phiên bản cũ cho tới khi được chuyển
+    async createVersion(screenId: string, seats: ILayoutSeat[]): Promise<ISeatLayout> {
+        const current = await this.getCurrentLayout(screenId);
+
+        try {
+            return await SeatLayout.create({
+                screenId,
+                version: (current?.version || 0) + 1,
+                seats,
+            });
+        } catch (error: any) {
+            if (error.code === DUPLICATE_KEY_CODE) {
+                throw new HttpError("Seat layout was changed by another request, please retry", HTTP_STATUS_CODES.CONFLICT);
+            }
+            throw error;
+        }
+    }
+
+    // Các suất chiếu sắp tới đang dùng phiên bản cũ hơn và kết quả khi chuyển sang phiên bản đích
+    async previewPropagation(screenId: string, version?: number): Promise<LayoutPropagationPreview> {
+        const layout = await this.requireLayout(screenId, version);
+        const showtimes = await Showtime.find({
+            screenId,
+            isActive: true,
+            startTime: { $gt: new Date() },
+            $or: [{ layoutVersion: { $lt: layout.version } }, { layoutVersion: { $exists: false } }],
+        }).sort({ startTime: 1 });
+
+        const plans = await Promise.all(showtimes.map((showtime) => this.planShowtime(showtime, layout)));
+
+        return { screenId, version: layout.version, showtimes: plans };
+    }
+
+    // Chỉ chuyển các suất chiếu không có xung đột; ghế đã giữ hoặc đã bán không bao giờ bị xóa hay đổi loại
+    async propagate(screenId: string, version?: number): Promise<LayoutPropagationResult> {
+        const layout = await this.requireLayout(screenId, version);
+        const preview = await this.previewPropagation(screenId, layout.version);
+        const result: LayoutPropagationResult = { screenId, version: layout.version, migrated: [], conflicts: [] };
+
+        for (const plan of preview.showtimes) {
+            if (!plan.canAdopt) {
+                result.conflicts.push(plan);
+                continue;
+            }
+
+            const applied = await this.applyPlan(screenId, plan);
+            if (applied) {
+                result.migrated.push(plan);
+                socketService.notifySeatLayoutChanged(plan.showtimeId, layout.version);
+                continue;
+            }
+
+            // Ghế bị giữ hoặc suất chiếu bị chuyển trong lúc áp dụng: lập lại kế hoạch để báo xung đột mới nhất
+            const showtime = await Showtime.findById(plan.showtimeId);
+            if (showtime) {
+                result.conflicts.push(await this.planShowtime(showtime, layout));
+            }
+        }
+
+        return result;
+    }
+
+    async exportLayout(screenId: string, format: LayoutFileFormat, version?: number): Promise<LayoutExport> {
+        const screen = await Screen.findById(screenId).select("name capacity screenType");
+        if (!screen) {
+            throw new HttpError("Screen not found", HTTP_STATUS_CODES.NOT_FOUND);
+        }
+
+        const layout = await this.requireLayout(screenId, version);
+        const seats = layout.seats.map((seat) => ({
+            row: seat.row,
+            number: seat.seatNumber,
+            type: seat.seatType,
+            kind: seat.kind || "regular",
+            x: seat.x,
+            y: seat.y,
+            groupId: seat.groupId,
+            isActive: seat.isActive,
+        }));
+        const filename = `screen-${screenId}-layout-v${layout.version}.${format}`;
+
+        if (format === "csv") {
+            const CSV_COLUMNS: (keyof typeof seats[number])[] = ["row", "number", "type", "kind", "x", "y", "groupId", "isActive"];
+            const lines = seats.map((seat) => CSV_COLUMNS.map((column) => toCsvField(seat[column])).join(","));
+            return { filename, contentType: "text/csv", content: [CSV_COLUMNS.join(","), ...lines].join("\n") + "\n" };
+        }
+
+        const content = JSON.stringify({
+            screen: { name: screen.name, capacity: screen.capacity, screenType: screen.screenType },
+            version: layout.version,
+            seats,
+        }, null, 2);
+        return { filename, contentType: "application/json", content };
+    }
+
+    // Nhập sơ đồ từ file JSON hoặc CSV; dryRun chỉ báo cáo, không tạo phiên bản mới
+    async importLayout(screenId: string, format: LayoutFileFormat, input: unknown, dryRun: boolean): Promise<LayoutImportReport> {
+        const screen = await Screen.findById(screenId).select("capacity");
+        if (!screen) {
+            throw new HttpError("Screen not found", HTTP_STATUS_CODES.NOT_FOUND);
+        }
+
+        const errors: string[] = [];
+        const warnings: string[] = [];
+        const seats = format === "csv" ? this.readCsvSeats(input, errors) : this.readJsonSeats(input, errors);
+
+        if (errors.length === 0) {
+            fillGridPositions(seats);
+            errors.push(...validateLayoutSeats(seats));
+        }
+
+        const activeCount = seats.filter((seat) => seat.isActive).length;
+        if (activeCount === 0 && errors.length === 0) {
+            errors.push("Layout must contain at least one active seat");
+        }
+        if (activeCount > screen.capacity) {
+            errors.push(`Layout has ${activeCount} active seats but the screen capacity is ${screen.capacity}`);
+        } else if (activeCount < screen.capacity) {
+            warnings.push(`Layout has ${activeCount} active seats, fewer than the screen capacity of ${screen.capacity}`);
+        }
+
+        const current = await this.getCurrentLayout(screenId);
+        const report: LayoutImportReport = {
+            valid: errors.length === 0,
+            dryRun,
+            errors,
+            warnings,
+            seatCount: activeCount,
+            capacity: screen.capacity,
+            currentVersion: current?.version ?? null,
+            version: null,
+            ...this.diffLayouts(current?.seats || [], seats),
+        };
+
+        if (!report.valid) {
+            throw new HttpError("Invalid seat layout", HTTP_STATUS_CODES.BAD_REQUEST, { report });
+        }
+
+        if (!dryRun) {
+            const layout = await this.createVersion(screenId, seats);
+            report.version = layout.version;
+        }
+
+        return report;
+    }
+
+    private readJsonSeats(input: unknown, errors: string[]): ILayoutSeat[] {
+        // Chấp nhận cả file export ({ seats: [...] }) lẫn mảng ghế
+        const items = Array.isArray(input) ? input : (input as any)?.seats;
+        if (!Array.isArray(items)) {
+            errors.push("JSON layout must be an array of seats or an object with a seats array");
+            return [];
+        }
+
+        return items.map((item, index) => this.toLayoutSeat(item || {}, `Seat #${index + 1}`, errors));
+    }
+
+    private readCsvSeats(input: unknown, errors: string[]): ILayoutSeat[] {
+        if (typeof input !== "string" || input.trim() === "") {
+            errors.push("CSV layout must be sent as text/csv");
+            return [];
+        }
+
+        const [header, ...lines] = parseCsv(input);
+        if (!header) {
+            errors.push("CSV layout must start with a header row");
+            return [];
+        }
+
+        const columns = header.map((column) => column.replace(/^\uFEFF/, "").trim());
+        const missing = ["row", "number"].filter((column) => !columns.includes(column));
+        if (missing.length > 0) {
+            errors.push(`CSV header is missing column(s): ${missing.join(", ")}`);
+            return [];
+        }
+
+        return lines.map((cells, index) => {
+            const item: Record<string, string> = {};
+            columns.forEach((column, position) => {
+                const value = (cells[position] || "").trim();
+                if (value !== "") item[column] = value;
+            });
+            // Dòng 1 là tiêu đề
+            return this.toLayoutSeat(item, `Line ${index + 2}`, errors);
+        });
+    }
+
+    private toLayoutSeat(item: Record<string, any>, label: string, errors: string[]): ILayoutSeat {
+        const row = String(item.row ?? "").trim().toUpperCase();
+        const seatNumber = Number(item.number ?? item.seatNumber);
+        const seatType = item.type ?? item.seatType ?? "standard";
+        const kind = item.kind ?? "regular";
+        // Ô tọa độ bỏ trống nghĩa là chưa đặt, fillGridPositions sẽ điền sau
+        const x = isBlank(item.x) ? undefined : Number(item.x);
+        const y = isBlank(item.y) ? undefined : Number(item.y);
+        const isActive = isBlank(item.isActive) ? true : parseBoolean(item.isActive);
+
+        if (!ROW_LABEL_PATTERN.test(row)) {
+            errors.push(`${label}: invalid row label "${item.row ?? ""}"`);
+        }
+        if (!Number.isInteger(seatNumber) || seatNumber < 1) {
+            errors.push(`${label}: seat number must be a positive integer`);
+        }
+        if (!SEAT_TYPES.includes(seatType)) {
+            errors.push(`${label}: unknown seat type "${seatType}"`);
+        }
+        if (!SEAT_KINDS.includes(kind)) {
+            errors.push(`${label}: unknown seat kind "${kind}"`);
+        }
+        if ((x !== undefined && (!Number.isInteger(x) || x < 0)) || (y !== undefined && (!Number.isInteger(y) || y < 0))) {
+            errors.push(`${label}: grid position must be a non-negative integer`);
+        }
+        if (isActive === undefined) {
+            errors.push(`${label}: isActive must be true or false, got "${item.isActive}"`);
+        }
+
+        return {
+            row,
+            seatNumber,
+            seatType,
+            kind,
+            x,
+            y,
+            groupId: item.groupId ? String(item.groupId) : undefined,
+            isActive: isActive ?? true,
+        };
+    }
+
+    // Ghế được thêm, bỏ hoặc đổi thuộc tính (nhãn dạng "A1") giữa hai sơ đồ
+    private diffLayouts(currentSeats: ILayoutSeat[], nextSeats: ILayoutSeat[]): Pick<LayoutImportReport, "added" | "removed" | "changed"> {
+        const active = (seats: ILayoutSeat[]) =>
+            new Map(seats.filter((seat) => seat.isActive).map((seat) => [seatKey(seat.row, seat.seatNumber), seat]));
+        const current = active(currentSeats);
+        const next = active(nextSeats);
+        const label = (seat: ILayoutSeat) => `${seat.row}${seat.seatNumber}`;
+
+        return {
+            added: [...next.entries()].filter(([key]) => !current.has(key)).map(([, seat]) => label(seat)),
+            removed: [...current.entries()].filter(([key]) => !next.has(key)).map(([, seat]) => label(seat)),
+            changed: [...next.entries()]
+                .filter(([key, seat]) => {
+                    const before = current.get(key);
+                    return before && (
+                        before.seatType !== seat.seatType ||
+                        (before.kind || "regular") !== (seat.kind || "regular") ||
+                        (before.groupId || null) !== (seat.groupId || null) ||
+                        before.x !== seat.x ||
+                        before.y !== seat.y
+                    );
+                })
+                .map(([, seat]) => label(seat)),
+        };
+    }
+
+    private async requireLayout(screenId: string, version?: number): Promise<ISeatLayout> {
+        const layout = await this.getLayout(screenId, version);
+        if (!layout) {
+            throw new HttpError("Seat layout not found", HTTP_STATUS_CODES.NOT_FOUND);
+        }
+        return layout;
+    }
+
+    private async planShowtime(showtime: IShowtime, layout: ISeatLayout): Promise<ShowtimeLayoutPlan> {
+        const seats = await Seat.find({ showtimeId: showtime._id });
+        const layoutSeats = new Map(
+            layout.seats.filter((seat) => seat.isActive).map((seat) => [seatKey(seat.row, seat.seatNumber), seat])
+        );
+        const inventoryKeys = new Set(seats.map((seat) => seatKey(seat.row, seat.seatNumber)));
+
+        const removed: InventorySeatRef[] = [];
+        const changed: ChangedSeat[] = [];
+        const moved: MovedSeat[] = [];
+        const conflicts: LayoutConflict[] = [];
+
+        seats.forEach((seat) => {
+            const target = layoutSeats.get(seatKey(seat.row, seat.seatNumber));
+            const ref = this.toSeatRef(seat);
+
+            if (target && (target.x !== seat.x || target.y !== seat.y)) {
+                moved.push({ ...ref, x: target.x, y: target.y });
+            }
+
+            const from = this.toSaleAttributes(seat);
+            const to = target && this.toSaleAttributes(target);
+
+            if (!to) {
+                removed.push(ref);
+            } else if (from.seatType !== to.seatType || from.kind !== to.kind || from.groupId !== to.groupId) {
+                changed.push({ ...ref, from, to });
+            } else {
+                return;
+            }
+
+            if (seat.status !== "available") {
+                conflicts.push({
+                    ...ref,
+                    change: target ? "change" : "remove",
+                    status: seat.status,
+                    bookingId: seat.bookingId?.toString(),
+                });
+            }
+        });
+
+        const added = [...layoutSeats.entries()]
+            .filter(([key]) => !inventoryKeys.has(key))
+            .map(([, seat]) => ({
+                row: seat.row,
+                seatNumber: seat.seatNumber,
+                seatType: seat.seatType,
+                kind: seat.kind,
+                x: seat.x,
+                y: seat.y,
+                groupId: seat.groupId,
+                isActive: true,
+            }));
+
+        return {
+            showtimeId: showtime.id,
+            startTime: showtime.startTime,
+            fromVersion: showtime.layoutVersion ?? null,
+            toVersion: layout.version,
+            added,
+            removed,
+            changed,
+            moved,
+            conflicts,
+            canAdopt: conflicts.length === 0,
+        };
+    }
+
+    // Áp dụng kế hoạch trong một transaction; trả về false nếu có ghế vừa bị giữ hoặc suất chiếu đã được chuyển
+    private async applyPlan(screenId: string, plan: ShowtimeLayoutPlan): Promise<boolean> {
+        const session = await mongoose.startSession();
+        session.startTransaction();
+
+        try {
+            // Chỉ chuyển khi suất chiếu vẫn đang ở phiên bản đã lập kế hoạch
+            const showtimeUpdate = await Showtime.updateOne(
+                {
+                    _id: plan.showtimeId,
+                    layoutVersion: plan.fromVersion === null ? { $exists: false } : plan.fromVersion,
+                },
+                { $set: { layoutVersion: plan.toVersion } },
+                { session }
+            );
+            if (showtimeUpdate.matchedCount !== 1) {
+                await session.abortTransaction();
+                return false;
+            }
+
+            if (plan.removed.length > 0) {
+                const removal = await Seat.deleteMany(
+                    { _id: { $in: plan.removed.map((seat) => seat.seatId) }, status: "available" },
+                    { session }
+                );
+                if (removal.deletedCount !== plan.removed.length) {
+                    await session.abortTransaction();
+                    return false;
+                }
+            }
+
+            for (const seat of plan.changed) {
+                const change = await Seat.updateOne(
+                    { _id: seat.seatId, status: "available", seatType: seat.from.seatType },
+                    seat.to.groupId
+                        ? { $set: { seatType: seat.to.seatType, kind: seat.to.kind, groupId: seat.to.groupId } }
+                        : { $set: { seatType: seat.to.seatType, kind: seat.to.kind }, $unset: { groupId: "" } },
+                    { session }
+                );
+                if (change.matchedCount !== 1) {
+                    await session.abortTransaction();
+                    return false;
+                }
+            }
+
+            for (const seat of plan.moved) {
+                await Seat.updateOne({ _id: seat.seatId }, { $set: { x: seat.x, y: seat.y } }, { session });
+            }
+
+            if (plan.added.length > 0) {
+                await Seat.insertMany(
+                    plan.added.map((seat) => ({
+                        screenId,
+                        showtimeId: plan.showtimeId,
+                        row: seat.row,
+                        seatNumber: seat.seatNumber,
+                        seatType: seat.seatType,
+                        kind: seat.kind,
+                        x: seat.x,
+                        y: seat.y,
+                        groupId: seat.groupId,
+                        isActive: true,
+                        status: "available",
+                    })),
+                    { session }
+                );
+            }
+
+            await session.commitTransaction();
+            return true;
+        } catch (error) {
+            await session.abortTransaction();
+            throw error;
+        } finally {
+            session.endSession();
+        }
+    }
+
+    private toSeatRef(seat: ISeat): InventorySeatRef {
+        return { seatId: seat.id, row: seat.row, seatNumber: seat.seatNumber };
+    }
+
+    private toSaleAttributes(seat: ISeat | ILayoutSeat): SeatSaleAttributes {
+        return { seatType: seat.seatType, kind: seat.kind || "regular", groupId: seat.groupId || null };
+    }
+}
@@ -2,15 +2,23 @@ import { IShowtime } from '../models/showtime.model';
 import { ShowtimeRepository } from '../patterns/repository/ShowtimeRepository';
 import { MovieRepository } from '../patterns/repository/MovieRepository';
 import { Seat, ISeat } from '../models/seat.model'; 
+import { Screen } from '../models/screen.model';
+import { ISeatLayout } from '../models/seatLayout.model';
+import { SeatLayoutService } from './seatLayout.service';
+import { PricingService } from './pricing.service';
 import socketService from '../socket/socket.service';
 
 export class ShowtimeService {
   private showtimeRepository: ShowtimeRepository;
   private movieRepository: MovieRepository;
+  private pricingService: PricingService;
+  private seatLayoutService: SeatLayoutService;
 
   constructor() {
     this.showtimeRepository = new ShowtimeRepository();
     this.movieRepository = new MovieRepository();
+    this.pricingService = new PricingService();
+    this.seatLayoutService = new SeatLayoutService();
   }
 
   async getAllShowtimes(date?: Date): Promise<IShowtime[]> {
@@ -37,8 +45,11 @@ export class ShowtimeService {
   }
 
   async createShowtime(showtimeData: Partial<IShowtime>): Promise<IShowtime> {
+    // price từ client được coi là giá gốc; giá thực tế được tính bằng các quy tắc giá
+    showtimeData.basePrice = showtimeData.basePrice || showtimeData.price;
+
     if (!showtimeData.movieId || !showtimeData.screenId || 
-        !showtimeData.startTime || !showtimeData.price) {
+        !showtimeData.startTime || !showtimeData.basePrice) {
       throw new Error('Missing required showtime information');
     }
 
@@ -56,10 +67,20 @@ export class ShowtimeService {
     
     showtimeData.endTime = endTime;
 
+    await this.applyPricingRules(showtimeData);
+
+    // Suất chiếu ghi nhớ phiên bản sơ đồ ghế được dùng để tạo ghế
+    const layout = await this.seatLayoutService.getCurrentLayout(showtimeData.screenId.toString());
+    if (!layout) {
+      // Không có sơ đồ thì suất chiếu sẽ không có ghế nào để bán
+      throw new Error('Screen has no seat layout');
+    }
+    showtimeData.layoutVersion = layout.version;
+
     const newShowtime = await this.showtimeRepository.create(showtimeData);
 
     if (newShowtime._id) {
-      await this.initializeSeatAvailability(newShowtime._id.toString(), showtimeData.screenId.toString());
+      await this.initializeSeatAvailability(newShowtime._id.toString(), showtimeData.screenId.toString(), layout);
     }
 
     return newShowtime;
@@ -71,6 +92,9 @@ export class ShowtimeService {
       throw new Error('Showtime not found');
     }
 
+    // Phiên bản sơ đồ ghế chỉ được đổi qua việc chuyển sơ đồ của phòng chiếu
+    delete showtimeData.layoutVersion;
+
     if (showtimeData.movieId) {
       const movie = await this.movieRepository.findById(showtimeData.movieId.toString());
       if (!movie) {
@@ -96,9 +120,39 @@ export class ShowtimeService {
       }
     }
 
+    // Tính lại giá khi giá gốc, giờ chiếu hoặc phòng chiếu thay đổi
+    if (showtimeData.basePrice || showtimeData.price || showtimeData.startTime || showtimeData.screenId) {
+      // Suất chiếu cũ không có basePrice: giá đã nhập chính là giá gốc
+      const existingBasePrice = existingShowtime.basePrice?.standard !== undefined
+        ? existingShowtime.basePrice
+        : existingShowtime.price;
+      showtimeData.basePrice = showtimeData.basePrice || showtimeData.price || existingBasePrice;
+      showtimeData.startTime = showtimeData.startTime || existingShowtime.startTime;
+      showtimeData.screenId = showtimeData.screenId || existingShowtime.screenId;
+      await this.applyPricingRules(showtimeData);
+    }
+
     return await this.showtimeRepository.update(id, showtimeData);
   }
 
+  private async applyPricingRules(showtimeData: Partial<IShowtime>): Promise<void> {
+    const screenId = (showtimeData.screenId as any)?._id || showtimeData.screenId;
+    const screen = await Screen.findById(screenId).select('screenType');
+    if (!screen) {
+      throw new Error('Screen not found');
+    }
+
+    const basePrice = showtimeData.basePrice!;
+    const { price, pricingAdjustments } = await this.pricingService.priceShowtime(
+      { standard: basePrice.standard, premium: basePrice.premium, vip: basePrice.vip },
+      new Date(showtimeData.startTime!),
+      screen.screenType
+    );
+
+    showtimeData.price = price;
+    showtimeData.pricingAdjustments = pricingAdjustments;
+  }
+
   async deleteShowtime(id: string): Promise<boolean> {
     const bookedSeats = await Seat.find({ 
       showtimeId: id,
@@ -136,6 +190,10 @@ export class ShowtimeService {
         row: seat.row,
         number: seat.seatNumber,
         type: seat.seatType,
+        kind: seat.kind || 'regular',
+        x: seat.x,
+        y: seat.y,
+        groupId: seat.groupId,
         price: showtime.price[seat.seatType as keyof typeof showtime.price],
         status: seat.status || 'available'
       });
@@ -149,15 +207,20 @@ export class ShowtimeService {
       }));
   }
 
-  private async initializeSeatAvailability(showtimeId: string, screenId: string): Promise<void> {
-    const screenSeats = await Seat.find({ screenId, isActive: true });
+  // Sao chép sơ đồ ghế của phòng chiếu thành ghế riêng của suất chiếu
+  private async initializeSeatAvailability(showtimeId: string, screenId: string, layout: ISeatLayout): Promise<void> {
+    const screenSeats = layout.seats.filter(seat => seat.isActive);
 
     const showtimeSeats = screenSeats.map(screenSeat => {
       return {
-        screenId: screenSeat.screenId,
+        screenId,
         row: screenSeat.row,
         seatNumber: screenSeat.seatNumber,
         seatType: screenSeat.seatType,
+        kind: screenSeat.kind,
+        x: screenSeat.x,
+        y: screenSeat.y,
+        groupId: screenSeat.groupId,
         isActive: true,
         showtimeId: showtimeId,
         status: 'available'
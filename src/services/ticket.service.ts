@@ -0,0 +1,69 @@
+import QRCode from "qrcode";
+import { IBooking } from "../models/booking.model";
+import { IShowtime } from "../models/showtime.model";
+import { ISeat } from "../models/seat.model";
+import { TICKET_SIGNING_SECRET, TICKET_VALID_AFTER_END_MINUTES } from "../config/ticket";
+import { signTicket, verifyTicket, TicketPayload } from "../utils/ticketToken";
+import { DEFAULT_AUDIENCE_CATEGORY } from "../patterns/factory/TicketFactory";
+import { HttpError } from "../utils/errors";
+import { toIdString } from "../utils/mongo";
+import { HTTP_STATUS_CODES } from "../httpStatus/httpStatusCode";
+
+// Vé điện tử của một ghế: chuỗi đã ký và mã QR chứa chuỗi đó
+export interface ETicket {
+    seatId: string;
+    seat: string;
+    seatType: string;
+    category: string;
+    token: string;
+    qrCode: string; // Ảnh PNG dạng data URL
+}
+
+export class TicketService {
+    // Phát hành một vé cho mỗi ghế; booking phải được nạp kèm thông tin ghế
+    async issueTickets(booking: IBooking, showtime: IShowtime): Promise<ETicket[]> {
+        if (!TICKET_SIGNING_SECRET) {
+            throw new HttpError("Ticket signing is not configured", HTTP_STATUS_CODES.INTERNAL_SERVER_ERROR);
+        }
+
+        const expiresAt = new Date(new Date(showtime.endTime).getTime() + TICKET_VALID_AFTER_END_MINUTES * 60 * 1000);
+        const movieTitle = showtime.movieId ? (showtime.movieId as any).title || "Movie" : "Movie";
+
+        return await Promise.all((booking.seats as unknown as ISeat[]).map(async seat => {
+            const seatId = toIdString(seat);
+            const lineItem = (booking.lineItems || []).find(item => toIdString(item.seat) === seatId);
+
+            const payload: TicketPayload = {
+                bookingId: toIdString(booking._id),
+                seatId,
+                showtimeId: toIdString(showtime._id),
+                seat: `${seat.row}${seat.seatNumber}`,
+                seatType: lineItem?.seatType || seat.seatType,
+                category: lineItem?.category || DEFAULT_AUDIENCE_CATEGORY,
+                movieTitle,
+                startTime: new Date(showtime.startTime).toISOString(),
+                version: (booking.exchanges || []).length
+            };
+
+            const token = signTicket(payload, TICKET_SIGNING_SECRET, expiresAt);
+
+            return {
+                seatId,
+                seat: payload.seat,
+                seatType: payload.seatType,
+                category: payload.category,
+                token,
+                qrCode: await QRCode.toDataURL(token, { errorCorrectionLevel: "M" })
+            };
+        }));
+    }
+
+    // Xác thực vé chỉ từ chữ ký; trả về null nếu vé không hợp lệ
+    verifyTicket(token: string): TicketPayload | null {
+        if (!TICKET_SIGNING_SECRET) {
+            throw new HttpError("Ticket signing is not configured", HTTP_STATUS_CODES.INTERNAL_SERVER_ERROR);
+        }
+
+        return verifyTicket(token, TICKET_SIGNING_SECRET);
+    }
+}
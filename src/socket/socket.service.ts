@@ -9,6 +9,15 @@ export interface SocketUser {
   role?: string;
 }
 
+// Thay đổi của một ghế, đủ để client cập nhật sơ đồ ghế mà không cần tải lại
+export interface SeatDiff {
+  seatId: string;
+  row: string;
+  number: number;
+  oldStatus: string;
+  newStatus: string;
+}
+
 export class SocketService {
   private static instance: SocketService;
   private io: Server | null = null;
@@ -47,8 +56,10 @@ export class SocketService {
       try {
         const token = socket.handshake.auth.token || socket.handshake.query.token;
         
+        // Không có token: kết nối ẩn danh chỉ được xem sơ đồ ghế
         if (!token) {
-          return next(new Error('Authentication token required'));
+          (socket as any).readOnly = true;
+          return next();
         }
         
         const decoded = verifyAccessToken(token as string);
@@ -70,6 +81,16 @@ export class SocketService {
       const userId = (socket as any).userId;
       const username = (socket as any).username;
       const role = (socket as any).role;
+
+      this.registerShowtimeListeners(socket);
+
+      if ((socket as any).readOnly) {
+        socket.emit('connected', {
+          message: 'Connected to booking service in read-only mode',
+          readOnly: true
+        });
+        return;
+      }
       
       if (!userId) {
         socket.disconnect();
@@ -159,6 +180,22 @@ export class SocketService {
     });
   }
 
+  // Theo dõi sơ đồ ghế của một suất chiếu, dùng được cho cả kết nối ẩn danh
+  private registerShowtimeListeners(socket: Socket): void {
+    socket.on('join_showtime', (data) => {
+      if (data?.showtimeId) {
+        socket.join(`showtime:${data.showtimeId}`);
+        socket.emit('joined_showtime', { showtimeId: data.showtimeId });
+      }
+    });
+
+    socket.on('leave_showtime', (data) => {
+      if (data?.showtimeId) {
+        socket.leave(`showtime:${data.showtimeId}`);
+      }
+    });
+  }
+
   public sendToConversation(conversationId: string, event: string, data: any): void {
     if (!this.io) return;
     this.io.to(`conversation:${conversationId}`).emit(event, data);
@@ -200,89 +237,46 @@ export class SocketService {
     this.io.to('admins').emit(event, data);
   }
 
-  public notifySeatsUpdated(showtimeId: string): void {
-    if (!this.io) return;
-    this.io.emit('seats_updated', { showtimeId });
+  // Only sockets that joined the showtime room (including anonymous viewers) receive the diff
+  public notifySeatsUpdated(showtimeId: string, seats: SeatDiff[]): void {
+    if (!this.io || seats.length === 0) return;
+    this.io.to(`showtime:${showtimeId}`).emit('seats_updated', { showtimeId, seats });
   }
 
-  private bookingTimers: Map<string, Map<string, NodeJS.Timeout[]>> = new Map();
+  // Sơ đồ ghế của suất chiếu đổi sang phiên bản mới, client cần tải lại toàn bộ ghế
+  public notifySeatLayoutChanged(showtimeId: string, layoutVersion: number): void {
+    if (!this.io) return;
+    this.io.to(`showtime:${showtimeId}`).emit('seat_layout_changed', { showtimeId, layoutVersion });
+  }
 
-public startBookingTimer(userId: string, bookingId: string, expirationMinutes: number = 15): boolean {
-  if (!this.bookingTimers.has(userId)) {
-    this.bookingTimers.set(userId, new Map());
+  // Hết hạn giữ chỗ được điều khiển bởi BookingExpiryJob từ expiresAt trong database,
+  // socket chỉ chuyển tiếp các sự kiện tới người dùng
+  public notifyBookingReserved(userId: string, bookingId: string, expiresAt: Date): void {
+    this.sendToUser(userId, 'booking_reserved', {
+      bookingId,
+      expiresAt: new Date(expiresAt).toISOString()
+    });
   }
-  
-  this.stopBookingTimer(userId, bookingId);
-  
-  const expiresAt = new Date();
-  expiresAt.setMinutes(expiresAt.getMinutes() + expirationMinutes);
-  
-  const allTimers: NodeJS.Timeout[] = [];
-  
-  const countdownMinutes = [10, 5, 2, 1];
-  for (const minute of countdownMinutes) {
-    if (minute < expirationMinutes) {
-      const notifyAt = new Date();
-      notifyAt.setMinutes(notifyAt.getMinutes() + expirationMinutes - minute);
-      
-      const timer = setTimeout(() => {
-        this.sendToUser(userId, 'booking_expiring', {
-          bookingId,
-          minutesLeft: minute
-        });
-      }, notifyAt.getTime() - Date.now());
-      
-      allTimers.push(timer);
-    }
+
+  public notifyBookingExpiring(userId: string, bookingId: string, minutesLeft: number, expiresAt: Date): void {
+    this.sendToUser(userId, 'booking_expiring', {
+      bookingId,
+      minutesLeft,
+      expiresAt: new Date(expiresAt).toISOString()
+    });
   }
-  
-  const expirationTimer = setTimeout(() => {
+
+  public notifyBookingExpired(userId: string, bookingId: string): void {
     this.sendToUser(userId, 'booking_expired', {
       bookingId
     });
-    
-    this.bookingTimers.get(userId)?.delete(bookingId);
-  }, expiresAt.getTime() - Date.now());
-  
-  allTimers.push(expirationTimer);
-  
-  this.bookingTimers.get(userId)?.set(bookingId, allTimers);
-  
-  this.sendToUser(userId, 'booking_reserved', {
-    bookingId,
-    expiresAt: expiresAt.toISOString()
-  });
-  
-  return true;
-}
+  }
 
-  public stopBookingTimer(userId: string, bookingId: string): boolean {
-    if (!this.bookingTimers.has(userId)) {
-      return false;
-    }
-    
-    const userTimers = this.bookingTimers.get(userId);
-    if (!userTimers || !userTimers.has(bookingId)) {
-      return false;
-    }
-    
-    const timers = userTimers.get(bookingId);
-    if (timers && timers.length > 0) {
-      for (const timer of timers) {
-        clearTimeout(timer);
-      }
-      
-      userTimers.delete(bookingId);
-      
-      this.sendToUser(userId, 'booking_timer_stopped', {
-        bookingId,
-        timestamp: Date.now()
-      });
-      
-      return true;
-    }
-    
-    return false;
+  public notifyBookingTimerStopped(userId: string, bookingId: string): void {
+    this.sendToUser(userId, 'booking_timer_stopped', {
+      bookingId,
+      timestamp: Date.now()
+    });
   }
 
   private async handleChatMessage(senderId: string, data: any, socket: Socket): Promise<void> {
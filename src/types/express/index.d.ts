@@ -11,6 +11,7 @@ declare global {
         role?: string;
         [key: string]: any;
       };
+      rawBody?: Buffer; // Nội dung thô của request, dùng để xác thực chữ ký webhook
     }
   }
 }
\ No newline at end of file
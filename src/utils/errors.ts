@@ -0,0 +1,25 @@
+import { HTTP_STATUS_CODES } from "../httpStatus/httpStatusCode";
+
+// Error carrying the HTTP status a controller should answer with
+export class HttpError extends Error {
+    statusCode: number;
+    details?: any;
+
+    constructor(message: string, statusCode: number, details?: any) {
+        super(message);
+        this.name = "HttpError";
+        this.statusCode = statusCode;
+        this.details = details;
+    }
+}
+
+// Raised when one or more seats were taken by someone else while we tried to hold them
+export class SeatConflictError extends HttpError {
+    seatIds: string[];
+
+    constructor(seatIds: string[]) {
+        super("One or more selected seats are not available", HTTP_STATUS_CODES.CONFLICT, { seatIds });
+        this.name = "SeatConflictError";
+        this.seatIds = seatIds;
+    }
+}
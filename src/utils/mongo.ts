@@ -0,0 +1,10 @@
+// Lấy chuỗi ID từ một tham chiếu, kể cả khi tham chiếu đã được populate
+export const toIdString = (ref: any): string => {
+    if (!ref) {
+        return "";
+    }
+    if (ref._id) {
+        return ref._id.toString();
+    }
+    return ref.toString();
+};
@@ -0,0 +1,64 @@
+import jwt from "jsonwebtoken";
+
+export const TICKET_TOKEN_ISSUER = "backend_movies";
+export const TICKET_TOKEN_AUDIENCE = "ticket";
+
+// Nội dung của một vé điện tử (một ghế); đủ để nhân viên đối chiếu mà không cần tra cơ sở dữ liệu
+export interface TicketPayload {
+    bookingId: string;
+    seatId: string;
+    showtimeId: string;
+    seat: string; // Nhãn ghế, vd. "A5"
+    seatType: string;
+    category: string;
+    movieTitle: string;
+    startTime: string; // ISO 8601
+    version: number; // Số lần đặt chỗ đã được đổi; vé của lần đổi trước bị từ chối khi kiểm tra trực tuyến
+}
+
+/**
+ * Ký vé điện tử dưới dạng JWT (HS256)
+ * @param payload Nội dung vé
+ * @param secret Khóa ký vé
+ * @param expiresAt Thời điểm vé hết hiệu lực
+ * @returns Chuỗi JWT dùng làm nội dung mã QR
+ */
+export const signTicket = (payload: TicketPayload, secret: string, expiresAt: Date): string => {
+    return jwt.sign(payload, secret, {
+        algorithm: "HS256",
+        issuer: TICKET_TOKEN_ISSUER,
+        audience: TICKET_TOKEN_AUDIENCE,
+        jwtid: `${payload.bookingId}:${payload.seatId}:${payload.version}`,
+        expiresIn: Math.max(1, Math.floor((expiresAt.getTime() - Date.now()) / 1000))
+    });
+};
+
+/**
+ * Xác thực vé điện tử chỉ từ chữ ký, không cần kết nối tới server
+ * @param token Chuỗi JWT đọc từ mã QR
+ * @param secret Khóa ký vé
+ * @returns Nội dung vé hoặc null nếu chữ ký sai hoặc vé đã hết hạn
+ */
+export const verifyTicket = (token: string, secret: string): TicketPayload | null => {
+    try {
+        const decoded: any = jwt.verify(token, secret, {
+            algorithms: ["HS256"],
+            issuer: TICKET_TOKEN_ISSUER,
+            audience: TICKET_TOKEN_AUDIENCE
+        });
+
+        return {
+            bookingId: decoded.bookingId,
+            seatId: decoded.seatId,
+            showtimeId: decoded.showtimeId,
+            seat: decoded.seat,
+            seatType: decoded.seatType,
+            category: decoded.category,
+            movieTitle: decoded.movieTitle,
+            startTime: decoded.startTime,
+            version: decoded.version
+        };
+    } catch (error) {
+        return null;
+    }
+};
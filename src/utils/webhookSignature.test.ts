@@ -0,0 +1,56 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { signWebhookPayload, verifyWebhookSignature } from "./webhookSignature";
+
+const SECRET = "test-webhook-secret";
+const PAYLOAD = JSON.stringify({ id: "evt_1", type: "payment.succeeded", data: { amount: 100000 } });
+const SIGNED_AT = 1_700_000_000;
+const at = (seconds: number): number => seconds * 1000;
+
+describe("verifyWebhookSignature", () => {
+  test("accepts a payload signed with the shared secret", () => {
+    const header = signWebhookPayload(PAYLOAD, SECRET, SIGNED_AT);
+    assert.equal(verifyWebhookSignature(PAYLOAD, header, SECRET, at(SIGNED_AT)), true);
+  });
+
+  test("accepts a signature within the five minute tolerance in either direction", () => {
+    const header = signWebhookPayload(PAYLOAD, SECRET, SIGNED_AT);
+    assert.equal(verifyWebhookSignature(PAYLOAD, header, SECRET, at(SIGNED_AT + 300)), true);
+    assert.equal(verifyWebhookSignature(PAYLOAD, header, SECRET, at(SIGNED_AT - 300)), true);
+  });
+
+  test("rejects a replayed signature older than the tolerance", () => {
+    const header = signWebhookPayload(PAYLOAD, SECRET, SIGNED_AT);
+    assert.equal(verifyWebhookSignature(PAYLOAD, header, SECRET, at(SIGNED_AT + 301)), false);
+  });
+
+  test("rejects a signature dated too far in the future", () => {
+    const header = signWebhookPayload(PAYLOAD, SECRET, SIGNED_AT);
+    assert.equal(verifyWebhookSignature(PAYLOAD, header, SECRET, at(SIGNED_AT - 301)), false);
+  });
+
+  test("rejects a tampered payload", () => {
+    const header = signWebhookPayload(PAYLOAD, SECRET, SIGNED_AT);
+    const tampered = PAYLOAD.replace("100000", "1");
+    assert.equal(verifyWebhookSignature(tampered, header, SECRET, at(SIGNED_AT)), false);
+  });
+
+  test("rejects a timestamp moved to look fresh", () => {
+    const header = signWebhookPayload(PAYLOAD, SECRET, SIGNED_AT).replace(`t=${SIGNED_AT}`, `t=${SIGNED_AT + 1000}`);
+    assert.equal(verifyWebhookSignature(PAYLOAD, header, SECRET, at(SIGNED_AT + 1000)), false);
+  });
+
+  test("rejects a signature made with another secret", () => {
+    const header = signWebhookPayload(PAYLOAD, "another-secret", SIGNED_AT);
+    assert.equal(verifyWebhookSignature(PAYLOAD, header, SECRET, at(SIGNED_AT)), false);
+  });
+
+  test("rejects missing or malformed headers and an empty secret", () => {
+    const header = signWebhookPayload(PAYLOAD, SECRET, SIGNED_AT);
+    assert.equal(verifyWebhookSignature(PAYLOAD, undefined, SECRET, at(SIGNED_AT)), false);
+    assert.equal(verifyWebhookSignature(PAYLOAD, "garbage", SECRET, at(SIGNED_AT)), false);
+    assert.equal(verifyWebhookSignature(PAYLOAD, `t=${SIGNED_AT}`, SECRET, at(SIGNED_AT)), false);
+    assert.equal(verifyWebhookSignature(PAYLOAD, `t=${SIGNED_AT},v1=abcd`, SECRET, at(SIGNED_AT)), false);
+    assert.equal(verifyWebhookSignature(PAYLOAD, header, "", at(SIGNED_AT)), false);
+  });
+});
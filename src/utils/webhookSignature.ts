@@ -0,0 +1,51 @@
+import crypto from "crypto";
+
+export const WEBHOOK_SIGNATURE_HEADER = "X-Gateway-Signature";
+
+// Chữ ký cũ hơn khoảng này bị từ chối để chống gửi lại (replay) webhook
+const SIGNATURE_TOLERANCE_SECONDS = 5 * 60;
+
+const computeSignature = (payload: string, secret: string, timestamp: number): string => {
+    return crypto.createHmac("sha256", secret).update(`${timestamp}.${payload}`).digest("hex");
+};
+
+/**
+ * Ký nội dung webhook bằng HMAC-SHA256
+ * @param payload Nội dung thô của request
+ * @param secret Khóa bí mật dùng chung với cổng thanh toán
+ * @param timestamp Thời điểm ký (giây)
+ * @returns Giá trị header dạng "t=<timestamp>,v1=<chữ ký>"
+ */
+export const signWebhookPayload = (payload: string, secret: string, timestamp: number = Math.floor(Date.now() / 1000)): string => {
+    return `t=${timestamp},v1=${computeSignature(payload, secret, timestamp)}`;
+};
+
+/**
+ * Xác thực chữ ký webhook
+ * @param payload Nội dung thô của request, đúng như đã nhận
+ * @param header Giá trị header chữ ký
+ * @param secret Khóa bí mật dùng chung với cổng thanh toán
+ * @returns true nếu chữ ký hợp lệ và chưa quá hạn
+ */
+export const verifyWebhookSignature = (payload: string, header: string | undefined, secret: string, now: number = Date.now()): boolean => {
+    if (!header || !secret) {
+        return false;
+    }
+
+    const parts = Object.fromEntries(
+        header.split(",").map(part => part.trim().split("=", 2) as [string, string])
+    );
+    const timestamp = Number(parts.t);
+    if (!parts.v1 || !Number.isInteger(timestamp)) {
+        return false;
+    }
+
+    if (Math.abs(now / 1000 - timestamp) > SIGNATURE_TOLERANCE_SECONDS) {
+        return false;
+    }
+
+    const expected = Buffer.from(computeSignature(payload, secret, timestamp), "hex");
+    const received = Buffer.from(parts.v1, "hex");
+
+    return expected.length === received.length && crypto.timingSafeEqual(expected, received);
+};